@@ -1,4 +1,5 @@
-import {Line, findClusterBreak} from "@codemirror/text"
+import {Line} from "@codemirror/text"
+import {clusterBreak} from "./grapheme"
 import {EditorSelection, SelectionRange} from "@codemirror/state"
 
 /// Used to indicate [text direction](#view.EditorView.textDirection).
@@ -288,7 +289,7 @@ export function moveVisually(line: Line, order: readonly BidiSpan[], dir: Direct
     startIndex = span.side(!forward, dir)
   }
   let indexForward = forward == (span.dir == dir)
-  let nextIndex = findClusterBreak(line.text, startIndex, indexForward)
+  let nextIndex = clusterBreak(line.text, startIndex, indexForward)
   movedOver = line.text.slice(Math.min(startIndex, nextIndex), Math.max(startIndex, nextIndex))
 
   if (nextIndex != span.side(forward, dir))
@@ -44,7 +44,7 @@ export class LineView extends ContentView implements BlockView {
       i++
     }
     for (let j = i; j < this.children.length; j++) end.append(this.children[j], 0)
-    while (i > 0 && this.children[i - 1].length == 0) { this.children[i - 1].parent = null; i-- }
+    while (i > 0 && this.children[i - 1].length == 0) { this.children[i - 1].destroy(); i-- }
     this.children.length = i
     this.markDirty()
     this.length = at
@@ -143,6 +143,9 @@ export class BlockWidgetView extends ContentView implements BlockView {
   dom!: HTMLElement | null
   parent!: DocView | null
   breakAfter = 0
+  // The widget that drew the current DOM, when this view's widget has
+  // since been replaced.
+  prevWidget: WidgetType | null = null
 
   constructor(public widget: WidgetType, public length: number, public type: BlockType) {
     super()
@@ -170,9 +173,17 @@ export class BlockWidgetView extends ContentView implements BlockView {
 
   sync() {
     if (!this.dom || !this.widget.updateDOM(this.dom)) {
+      if (this.dom) (this.prevWidget || this.widget).destroy(this.dom)
       this.setDOM(this.widget.toDOM(this.editorView))
       this.dom!.contentEditable = "false"
+      if (this.widget.mounted) this.editorView.mountWidget(this.widget, this.dom!)
     }
+    this.prevWidget = null
+  }
+
+  destroy() {
+    super.destroy()
+    if (this.dom) (this.prevWidget || this.widget).destroy(this.dom)
   }
 
   get overrideDOMText() {
@@ -185,6 +196,7 @@ export class BlockWidgetView extends ContentView implements BlockView {
     if (other instanceof BlockWidgetView && other.type == this.type &&
         other.widget.constructor == this.widget.constructor) {
       if (!other.widget.eq(this.widget)) this.markDirty(true)
+      if (this.dom && !this.prevWidget) this.prevWidget = this.widget
       this.widget = other.widget
       this.length = other.length
       this.breakAfter = other.breakAfter
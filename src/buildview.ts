@@ -6,6 +6,50 @@ import {Text, TextIterator} from "@codemirror/text"
 
 const enum T { Chunk = 512 }
 
+// Reorders the sets of active marks passed to a span iterator so
+// that marks with a higher priority wrap those with a lower one.
+// Since that changes which marks are shared with the previous span,
+// `openStart` is recomputed as the amount of marks at the start of
+// the new order that continue, at the same depth, from the previous
+// span.
+export class MarkOrder {
+  active: readonly MarkDecoration[] = []
+  marks: readonly MarkDecoration[] = []
+  openStart = 0
+  started = false
+
+  order(active: readonly MarkDecoration[], openStart: number) {
+    // For the first span, the marks that continue from the content
+    // before it are assumed to have been drawn in priority order
+    let prev = this.started ? this.marks : byPriority(active.slice(0, openStart))
+    this.started = true
+    this.active = active
+    this.openStart = openStart
+    if (!active.some(m => m.priority) && !prev.some(m => m.priority)) {
+      this.marks = active
+    } else {
+      let sorted = byPriority(active.slice()), open = 0
+      while (open < sorted.length && open < prev.length && sorted[open] == prev[open] &&
+             active.indexOf(sorted[open]) < openStart) open++
+      this.marks = sorted
+      this.openStart = open
+    }
+    return this.marks
+  }
+
+  // Convert the amount of marks left open at the end of the
+  // iteration to the new order
+  openEnd(openEnd: number) {
+    let open = 0
+    while (open < this.marks.length && this.active.indexOf(this.marks[open]) < openEnd) open++
+    return open
+  }
+}
+
+function byPriority(marks: MarkDecoration[]) {
+  return marks.sort((a, b) => b.priority - a.priority)
+}
+
 export class ContentBuilder implements SpanIterator<Decoration> {
   content: BlockView[] = []
   curLine: LineView | null = null
@@ -16,6 +60,7 @@ export class ContentBuilder implements SpanIterator<Decoration> {
   text: string = ""
   skip: number
   textOff: number = 0
+  markOrder = new MarkOrder
 
   constructor(private doc: Text, public pos: number, public end: number) {
     this.cursor = doc.iter()
@@ -77,20 +122,23 @@ export class ContentBuilder implements SpanIterator<Decoration> {
   }
 
   span(from: number, to: number, active: MarkDecoration[], openStart: number) {
-    this.buildText(to - from, active, openStart)
+    let marks = this.markOrder.order(active, openStart)
+    openStart = this.markOrder.openStart
+    this.buildText(to - from, marks, openStart)
     this.pos = to
     if (this.openStart < 0) this.openStart = openStart
   }
 
   point(from: number, to: number, deco: Decoration, active: MarkDecoration[], openStart: number) {
-    let len = to - from
+    let len = to - from, marks = this.markOrder.order(active, openStart)
+    openStart = this.markOrder.openStart
     if (deco instanceof PointDecoration) {
       if (deco.block) {
         let {type} = deco
         if (type == BlockType.WidgetAfter && !this.posCovered()) this.getLine()
         this.addWidget(new BlockWidgetView(deco.widget || new NullWidget("div"), len, type))
       } else {
-        let widget = this.wrapMarks(WidgetView.create(deco.widget || new NullWidget("span"), len, deco.startSide), active)
+        let widget = this.wrapMarks(WidgetView.create(deco.widget || new NullWidget("span"), len, deco.startSide), marks)
         this.getLine().append(widget, openStart)
       }
     } else if (this.doc.lineAt(this.pos).from == this.pos) { // Line decoration
@@ -114,7 +162,7 @@ export class ContentBuilder implements SpanIterator<Decoration> {
   static build(text: Text, from: number, to: number, decorations: readonly DecorationSet[]):
     {content: BlockView[], breakAtStart: number, openStart: number, openEnd: number} {
     let builder = new ContentBuilder(text, from, to)
-    builder.openEnd = RangeSet.spans(decorations, from, to, builder)
+    builder.openEnd = builder.markOrder.openEnd(RangeSet.spans(decorations, from, to, builder))
     if (builder.openStart < 0) builder.openStart = builder.openEnd
     builder.finish()
     return builder
@@ -0,0 +1,101 @@
+import {Extension} from "@codemirror/state"
+import {EditorView} from "./editorview"
+import {decorations, clipboardHTML, PluginField} from "./extension"
+import {renderLinesDOM} from "./static"
+
+// Style properties copied from the rendered content. The properties
+// in `ownProps` aren't inherited, so they are only copied when they
+// don't have one of the listed default values.
+const inheritedProps = ["color", "font-weight", "font-style"]
+const ownProps: {[prop: string]: string[]} = {
+  "background-color": ["transparent", "rgba(0, 0, 0, 0)"],
+  "text-decoration-line": ["none"]
+}
+
+// Create a copy of a rendered node that has its computed styles (as
+// far as they differ from those of its parent) inlined.
+function styledNode(node: Node, parentStyle: CSSStyleDeclaration, doc: Document): Node {
+  if (node.nodeType != 1) return doc.createTextNode(node.textContent || "")
+  let style = doc.defaultView!.getComputedStyle(node as HTMLElement), css = ""
+  for (let prop of inheritedProps) {
+    let value = style.getPropertyValue(prop)
+    if (value != parentStyle.getPropertyValue(prop)) css += `${prop}: ${value}; `
+  }
+  for (let prop in ownProps) {
+    let value = style.getPropertyValue(prop)
+    if (value && ownProps[prop].indexOf(value) < 0) css += `${prop}: ${value}; `
+  }
+  let result: Node
+  if (css) {
+    let span = doc.createElement("span")
+    span.setAttribute("style", css.trim())
+    result = span
+  } else {
+    result = doc.createDocumentFragment()
+  }
+  for (let child = node.firstChild; child; child = child.nextSibling)
+    result.appendChild(styledNode(child, style, doc))
+  return result
+}
+
+function renderCopied(view: EditorView, ranges: readonly {from: number, to: number}[]) {
+  let {state} = view, doc = view.dom.ownerDocument!
+  let deco = [
+    ...state.facet(decorations),
+    ...view.pluginField(PluginField.layoutDecorations),
+    ...view.pluginField(PluginField.decorations)
+  ]
+  // Draw the content inside the editor, so that the theme's styles
+  // apply to it, and read the resulting styles
+  let measure = doc.createElement("div")
+  measure.className = "cm-content"
+  measure.style.cssText = "position: absolute; left: -10000px; top: 0; white-space: pre"
+  for (let {from, to} of ranges)
+    for (let line of renderLinesDOM(state, deco, from, to, doc)) measure.appendChild(line)
+  view.dom.appendChild(measure)
+
+  let win = doc.defaultView!
+  let pre = doc.createElement("pre"), contentStyle = win.getComputedStyle(measure)
+  let editorBackground = win.getComputedStyle(view.dom).backgroundColor
+  pre.setAttribute("style", `color: ${contentStyle.color}; font-family: ${contentStyle.fontFamily}` +
+    (ownProps["background-color"].indexOf(editorBackground) < 0 ? `; background-color: ${editorBackground}` : ""))
+  for (let line = measure.firstChild; line; line = line.nextSibling) {
+    if (line != measure.firstChild) pre.appendChild(doc.createTextNode("\n"))
+    pre.appendChild(styledNode(line, contentStyle, doc))
+  }
+  measure.remove()
+  return pre
+}
+
+/// Returns an extension that, when content is copied or cut, puts an
+/// HTML version of it on the clipboard (as `text/html`), along with
+/// the plain text. The copied ranges are drawn with their [mark
+/// decorations](#view.Decoration^mark), and the styles that the
+/// editor's themes and other style modules give those are inlined, so
+/// that highlighting is preserved when pasting into rich text editors.
+/// The result is a `<pre>` element, with the copied lines separated
+/// by newlines.
+///
+/// Decorations provided by view plugins are usually only computed for
+/// the [viewport](#view.EditorView.viewport), so text copied from
+/// outside of it only gets the styling of decorations provided
+/// directly through [state](#view.EditorView^decorations).
+///
+/// Since drawing and measuring the copied content is expensive, only
+/// plain text is put on the clipboard when more than `maxLength`
+/// characters are copied.
+export function htmlClipboard(config: {
+  /// Turns the styled `<pre>` element into the HTML that is put on
+  /// the clipboard. Can be used to adjust the element or produce
+  /// different markup. Defaults to taking the element's `outerHTML`.
+  serialize?: (dom: HTMLElement, view: EditorView) => string
+  /// The maximum amount of copied characters for which HTML is
+  /// produced. Defaults to 50 000.
+  maxLength?: number
+} = {}): Extension {
+  let serialize = config.serialize || (dom => dom.outerHTML), maxLength = config.maxLength ?? 5e4
+  return clipboardHTML.of((view, ranges) => {
+    if (ranges.reduce((size, r) => size + r.to - r.from, 0) > maxLength) return null
+    return serialize(renderCopied(view, ranges), view)
+  })
+}
@@ -13,6 +13,12 @@ export class DOMPos {
 
 const none: any[] = []
 
+// Counts the DOM nodes created and reused during syncing, so that
+// tracing code can report them. Each document view keeps its own.
+export type SyncCounts = {created: number, reused: number}
+
+const noCounts: SyncCounts = {created: 0, reused: 0}
+
 export abstract class ContentView {
   parent: ContentView | null = null
   dom: Node | null = null
@@ -26,6 +32,10 @@ export abstract class ContentView {
     return this.parent.editorView
   }
 
+  get syncCounts(): SyncCounts {
+    return this.parent ? this.parent.syncCounts : noCounts
+  }
+
   get overrideDOMText(): Text | null { return null }
 
   get posAtStart(): number {
@@ -56,11 +66,14 @@ export abstract class ContentView {
 
   sync(track?: {node: Node, written: boolean}) {
     if (this.dirty & Dirty.Node) {
-      let parent = this.dom as HTMLElement, pos: Node | null = null
+      let parent = this.dom as HTMLElement, pos: Node | null = null, counts: SyncCounts | null = null
       for (let child of this.children) {
         if (child.dirty) {
           let next = pos ? pos.nextSibling : parent.firstChild
           if (!child.dom && next && !ContentView.get(next)?.parent) child.reuseDOM(next)
+          if (!counts) counts = this.syncCounts
+          if (child.dom) counts.reused++
+          else counts.created++
           child.sync(track)
           child.dirty = Dirty.Not
         }
@@ -177,11 +190,25 @@ export abstract class ContentView {
 
   replaceChildren(from: number, to: number, children: ContentView[] = none) {
     this.markDirty()
-    for (let i = from; i < to; i++) this.children[i].parent = null
+    // Detach the children that are kept, so that only the ones that
+    // are dropped still point at this view (setParent restores them)
+    for (let child of children) if (child.parent == this) child.parent = null
+    for (let i = from; i < to; i++) {
+      let child = this.children[i]
+      if (child.parent == this) child.destroy()
+    }
     this.children.splice(from, to - from, ...children)
     for (let i = 0; i < children.length; i++) children[i].setParent(this)
   }
 
+  // Called when this view is dropped from the tree. Views whose
+  // parent has changed (because they were moved elsewhere) are left
+  // alone.
+  destroy() {
+    for (let child of this.children) if (child.parent == this) child.destroy()
+    this.parent = null
+  }
+
   ignoreMutation(_rec: MutationRecord): boolean { return false }
   ignoreEvent(_event: Event): boolean { return false }
 
@@ -1,11 +1,14 @@
 import {EditorState, EditorSelection, SelectionRange, CharCategory} from "@codemirror/state"
-import {findColumn, countColumn, findClusterBreak} from "@codemirror/text"
+import {findColumn, countColumn} from "@codemirror/text"
+import {RangeSet} from "@codemirror/rangeset"
 import {EditorView} from "./editorview"
+import {atomicRanges, subwordBoundary, wordSegmenter, PluginField} from "./extension"
 import {BlockType} from "./decoration"
 import {WidgetView} from "./inlineview"
 import {LineView} from "./blockview"
 import {clientRectsFor, textRange} from "./dom"
 import {moveVisually, movedOver, Direction} from "./bidi"
+import {clusterBreak, snapToCluster, noSpaceScript} from "./grapheme"
 import browser from "./browser"
 
 declare global {
@@ -20,22 +23,36 @@ export function groupAt(state: EditorState, pos: number, bias: 1 | -1 = 1) {
   if (linePos == 0) bias = 1
   else if (linePos == line.length) bias = -1
   let from = linePos, to = linePos
-  if (bias < 0) from = findClusterBreak(line.text, linePos, false)
-  else to = findClusterBreak(line.text, linePos)
-  let cat = categorize(line.text.slice(from, to))
+  if (bias < 0) from = clusterBreak(line.text, linePos, false)
+  else to = clusterBreak(line.text, linePos)
+  let char = from, cat = categorize(line.text.slice(from, to))
   while (from > 0) {
-    let prev = findClusterBreak(line.text, from, false)
+    let prev = clusterBreak(line.text, from, false)
     if (categorize(line.text.slice(prev, from)) != cat) break
     from = prev
   }
   while (to < line.length) {
-    let next = findClusterBreak(line.text, to)
+    let next = clusterBreak(line.text, to)
     if (categorize(line.text.slice(to, next)) != cat) break
     to = next
   }
+  let word = segmentWord(state, line.text, char)
+  if (word) {
+    from = Math.max(from, word.from)
+    to = Math.min(to, word.to)
+  }
   return EditorSelection.range(from + line.from, to + line.from)
 }
 
+// When the character at `pos` belongs to a script that doesn't put
+// spaces between words, use the configured segmenter to find the
+// word around it.
+function segmentWord(state: EditorState, text: string, pos: number) {
+  if (!noSpaceScript.test(text.slice(pos, clusterBreak(text, pos)))) return null
+  let word = state.facet(wordSegmenter)(text, pos)
+  return word && word.from <= pos && word.to > pos ? word : null
+}
+
 // Search the DOM for the {node, offset} position closest to the given
 // coordinates. Very inefficient and crude, but can usually be avoided
 // by calling caret(Position|Range)FromPoint instead.
@@ -170,7 +187,7 @@ export function posAtCoords(view: EditorView, {x, y}: {x: number, y: number}, bi
     let line = LineView.find(view.docView, lineStart)!
     ;({node, offset} = domPosAtCoords(line.dom!, x, y))
   }
-  return view.docView.posFromDOM(node, offset)
+  return snapToCluster(view.state.doc, view.docView.posFromDOM(node, offset))
 }
 
 // In case of a high line height, Safari's caretRangeFromPoint treats
@@ -232,6 +249,45 @@ export function byGroup(view: EditorView, pos: number, start: string) {
   }
 }
 
+export function moveByGroup(view: EditorView, start: SelectionRange, forward: boolean) {
+  let target = moveByChar(view, start, forward, initial => byGroup(view, start.head, initial))
+  if (target.head == start.head) return target
+  let {state} = view, line = state.doc.lineAt(target.head), dir = target.head > start.head ? 1 : -1
+  // Find the first non-whitespace character moved over, and stop at
+  // the end of its word if that comes before the end of the group
+  let pos = Math.max(line.from, Math.min(line.to, start.head)) - line.from, end = target.head - line.from
+  for (;;) {
+    let next = clusterBreak(line.text, pos, dir > 0)
+    if (dir > 0 ? next > end : next < end) return target
+    let char = dir > 0 ? pos : next
+    if (!/\s/.test(line.text.slice(Math.min(pos, next), Math.max(pos, next)))) {
+      let word = segmentWord(state, line.text, char)
+      if (word && (dir > 0 ? word.to < end : word.from > end))
+        return EditorSelection.cursor((dir > 0 ? word.to : word.from) + line.from, -dir as -1 | 1)
+      return target
+    }
+    pos = next
+  }
+}
+
+export function moveBySubword(view: EditorView, start: SelectionRange, forward: boolean) {
+  let target = moveByGroup(view, start, forward)
+  if (target.head == start.head) return target
+  // Group motion may skip over line breaks before the group, so only
+  // the line the group is on has to be scanned
+  let {state} = view, line = state.doc.lineAt(target.head), dir = target.head > start.head ? 1 : -1
+  let isBoundary = state.facet(subwordBoundary), categorize = state.charCategorizer(target.head)
+  let isWord = (from: number, to: number) => categorize(line.text.slice(from, to)) == CharCategory.Word
+  let pos = Math.max(line.from, Math.min(line.to, start.head)) - line.from, end = target.head - line.from
+  for (;;) {
+    pos = clusterBreak(line.text, pos, dir > 0)
+    if (dir > 0 ? pos >= end : pos <= end) return target
+    let before = clusterBreak(line.text, pos, false), after = clusterBreak(line.text, pos)
+    if (isWord(before, pos) && isWord(pos, after) && isBoundary(line.text, pos))
+      return EditorSelection.cursor(pos + line.from, dir < 0 ? 1 : -1)
+  }
+}
+
 export function moveVertically(view: EditorView, start: SelectionRange, forward: boolean, distance?: number) {
   let startPos = start.head, dir: -1 | 1 = forward ? 1 : -1
   if (startPos == (forward ? view.state.doc.length : 0)) return EditorSelection.cursor(startPos)
@@ -270,3 +326,63 @@ export function moveVertically(view: EditorView, start: SelectionRange, forward:
   }
   return EditorSelection.cursor(result, undefined, undefined, goal)
 }
+
+function getAtoms(view: EditorView): readonly RangeSet<any>[] {
+  return view.state.facet(atomicRanges).concat(view.pluginField(PluginField.atomicRanges))
+}
+
+// Move a position out of any atomic range that it falls inside of,
+// towards the side indicated by `bias`, or, when that is zero, to the
+// nearest side of the range.
+function skipAtomicRanges(atoms: readonly RangeSet<any>[], pos: number, bias: -1 | 0 | 1) {
+  for (;;) {
+    let moved = false
+    for (let set of atoms) {
+      set.between(pos - 1, pos + 1, (from, to) => {
+        if (pos > from && pos < to) {
+          if (!bias) bias = pos - from < to - pos ? -1 : 1
+          pos = bias < 0 ? from : to
+          moved = true
+        }
+      })
+    }
+    if (!moved) return pos
+  }
+}
+
+// Adjust the result of a cursor motion from `start` so that it
+// doesn't end up inside an atomic range.
+export function skipAtoms(view: EditorView, start: SelectionRange, pos: SelectionRange) {
+  let atoms = getAtoms(view)
+  if (!atoms.length) return pos
+  let dir: -1 | 1 = pos.head < start.head ? -1 : 1, moved = skipAtomicRanges(atoms, pos.head, dir)
+  return moved == pos.head ? pos : EditorSelection.cursor(moved, dir < 0 ? 1 : -1, undefined, pos.goalColumn)
+}
+
+// Make sure none of the ranges in the given selection start or end
+// inside an atomic range. Cursors are moved in the direction they
+// moved relative to the corresponding range in `prev`, when given,
+// and to the nearest side of the atomic range otherwise. Non-empty
+// ranges are expanded to cover the atomic ranges they touch.
+export function skipAtomsForSelection(view: EditorView, sel: EditorSelection, prev?: EditorSelection) {
+  let atoms = getAtoms(view)
+  if (!atoms.length) return sel
+  let ranges: SelectionRange[] | null = null
+  for (let i = 0; i < sel.ranges.length; i++) {
+    let range = sel.ranges[i], updated: SelectionRange | null = null
+    if (range.empty) {
+      let before = prev && prev.ranges.length == sel.ranges.length ? prev.ranges[i].head : range.head
+      let pos = skipAtomicRanges(atoms, range.head, range.head > before ? 1 : range.head < before ? -1 : 0)
+      if (pos != range.head) updated = EditorSelection.cursor(pos, pos > range.head ? -1 : 1)
+    } else {
+      let from = skipAtomicRanges(atoms, range.from, -1), to = skipAtomicRanges(atoms, range.to, 1)
+      if (from != range.from || to != range.to)
+        updated = EditorSelection.range(range.from == range.anchor ? from : to, range.from == range.head ? from : to)
+    }
+    if (updated) {
+      if (!ranges) ranges = sel.ranges.slice()
+      ranges[i] = updated
+    }
+  }
+  return ranges ? EditorSelection.create(ranges, sel.mainIndex) : sel
+}
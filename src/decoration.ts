@@ -24,6 +24,12 @@ interface MarkDecorationSpec {
   /// range—content is split on mark starts and ends, and each piece
   /// gets its own element.
   tagName?: string
+  /// Determines how this mark nests with other marks that overlap it.
+  /// Marks with a higher priority are drawn outside of marks with a
+  /// lower priority, so that they are split as little as possible.
+  /// Marks with the same priority are nested in the order in which
+  /// their ranges were found. Defaults to 0.
+  priority?: number
   /// Decoration specs allow extra properties, which can be retrieved
   /// through the decoration's [`spec`](#view.Decoration.spec)
   /// property.
@@ -104,6 +110,27 @@ export abstract class WidgetType {
   /// implementation just returns false.
   updateDOM(_dom: HTMLElement): boolean { return false }
 
+  /// Called when a DOM element created by this widget (or an earlier
+  /// instance of the same type whose DOM it took over through
+  /// `updateDOM`) is removed from the editor or replaced. Can be used
+  /// to clean up resources, such as event listeners or timers, that
+  /// were associated with the element. The default does nothing.
+  destroy(_dom: HTMLElement): void {}
+
+  /// When implemented, this is called once for each DOM element
+  /// created by [`toDOM`](#view.WidgetType.toDOM), after that element
+  /// has been added to the document, during the editor's next layout
+  /// measurement. Reading the element's layout is safe here. Changes
+  /// to the DOM should be scheduled with
+  /// [`requestMeasure`](#view.EditorView.requestMeasure).
+  mounted?(dom: HTMLElement, view: EditorView): void
+
+  /// Produce an HTML string for this widget, used when content is
+  /// rendered [statically](#view.renderStaticHTML), without a view.
+  /// The default returns null, in which case an empty placeholder
+  /// element is rendered in place of the widget.
+  toStaticHTML(): string | null { return null }
+
   /// @internal
   compare(other: WidgetType): boolean {
     return this == other || this.constructor == other.constructor && this.eq(other)
@@ -222,6 +249,7 @@ export class MarkDecoration extends Decoration {
   tagName: string
   class: string
   attrs: Attrs | null
+  priority: number
 
   constructor(spec: MarkDecorationSpec) {
     let {start, end} = getInclusive(spec)
@@ -231,6 +259,7 @@ export class MarkDecoration extends Decoration {
     this.tagName = spec.tagName || "span"
     this.class = spec.class || ""
     this.attrs = spec.attributes || null
+    this.priority = spec.priority || 0
   }
 
   eq(other: Decoration): boolean {
@@ -238,6 +267,7 @@ export class MarkDecoration extends Decoration {
       other instanceof MarkDecoration &&
       this.tagName == other.tagName &&
       this.class == other.class &&
+      this.priority == other.priority &&
       attrsEq(this.attrs, other.attrs)
   }
 
@@ -8,8 +8,9 @@ import browser from "./browser"
 import {Decoration, DecorationSet, WidgetType, BlockType, addRange} from "./decoration"
 import {clientRectsFor, isEquivalentPosition, maxOffset, Rect, scrollRectIntoView, getSelection, hasSelection} from "./dom"
 import {ViewUpdate, PluginField, decorations as decorationsFacet,
-        UpdateFlag, editable, ChangedRange} from "./extension"
+        UpdateFlag, editable, ChangedRange, ScrollTarget} from "./extension"
 import {EditorView} from "./editorview"
+import {Direction} from "./bidi"
 
 export class DocView extends ContentView {
   children!: BlockView[]
@@ -37,8 +38,12 @@ export class DocView extends ContentView {
 
   get root() { return this.view.root }
 
+  private counts = {created: 0, reused: 0}
+
   get editorView() { return this.view }
 
+  get syncCounts() { return this.counts }
+
   get length() { return this.view.state.doc.length }
 
   constructor(readonly view: EditorView) {
@@ -375,13 +380,27 @@ export class DocView extends ContentView {
       this.view.viewState.lineGapDeco,
       this.compositionDeco,
       ...this.view.state.facet(decorationsFacet),
+      ...this.view.pluginField(PluginField.layoutDecorations),
       ...this.view.pluginField(PluginField.decorations)
     ]
   }
 
-  scrollPosIntoView(pos: number, side: number) {
-    let rect = this.coordsAt(pos, side)
+  scrollIntoView(target: ScrollTarget) {
+    let {range} = target, {viewport} = this.view
+    if (target.isSnapshot) {
+      let scroller = this.view.scrollDOM, scrollerTop = scroller.getBoundingClientRect().top
+      let line = this.view.viewState.lineAt(range.head, this.dom.getBoundingClientRect().top)
+      scroller.scrollTop += (line.top - scrollerTop) - target.yMargin
+      scroller.scrollLeft = target.xMargin
+      return
+    }
+    let rect = this.coordsAt(range.head, range.empty ? range.assoc : range.head > range.anchor ? -1 : 1), other
     if (!rect) return
+    if (!range.empty && range.anchor >= viewport.from && range.anchor <= viewport.to &&
+        (other = this.coordsAt(range.anchor, range.anchor > range.head ? -1 : 1)))
+      rect = {left: Math.min(rect.left, other.left), top: Math.min(rect.top, other.top),
+              right: Math.max(rect.right, other.right), bottom: Math.max(rect.bottom, other.bottom)}
+
     let mLeft = 0, mRight = 0, mTop = 0, mBottom = 0
     for (let margins of this.view.pluginField(PluginField.scrollMargins)) if (margins) {
       let {left, right, top, bottom} = margins
@@ -393,7 +412,8 @@ export class DocView extends ContentView {
     scrollRectIntoView(this.dom, {
       left: rect.left - mLeft, top: rect.top - mTop,
       right: rect.right + mRight, bottom: rect.bottom + mBottom
-    })
+    }, range.head < range.anchor ? -1 : 1, target.x, target.y, target.xMargin, target.yMargin,
+      this.view.textDirection == Direction.LTR)
   }
 }
 
@@ -1,3 +1,5 @@
+import {ScrollStrategy} from "./extension"
+
 export function getSelection(root: DocumentOrShadowRoot): Selection {
   return (root.getSelection ? root.getSelection() : document.getSelection())!
 }
@@ -95,9 +97,65 @@ function windowRect(win: Window): Rect {
           top: 0, bottom: win.innerHeight}
 }
 
-const ScrollSpace = 5
+// Compute the part of the element that is visible, in client
+// coordinates, taking the window and scrolling ancestors into
+// account.
+export function visibleClientRect(dom: HTMLElement, rect = dom.getBoundingClientRect()): Rect {
+  let left = Math.max(0, rect.left), right = Math.min(innerWidth, rect.right)
+  let top = Math.max(0, rect.top), bottom = Math.min(innerHeight, rect.bottom)
+  for (let parent = dom.parentNode as any; parent;) { // (Cast to any because TypeScript is useless with Node types)
+    if (parent.nodeType == 1) {
+      let style = window.getComputedStyle(parent)
+      if ((parent.scrollHeight > parent.clientHeight || parent.scrollWidth > parent.clientWidth) &&
+          style.overflow != "visible") {
+        let parentRect = parent.getBoundingClientRect()
+        left = Math.max(left, parentRect.left)
+        right = Math.min(right, parentRect.right)
+        top = Math.max(top, parentRect.top)
+        bottom = Math.min(bottom, parentRect.bottom)
+      }
+      parent = style.position == "absolute" || style.position == "fixed" ? parent.offsetParent : parent.parentNode
+    } else if (parent.nodeType == 11) { // Shadow root
+      parent = parent.host
+    } else {
+      break
+    }
+  }
+  return {left, right, top, bottom}
+}
+
+// Scroll the element by the given amount. The part of the distance
+// that it can't scroll is passed on to its scrollable ancestors, and
+// finally the window.
+export function scrollByWithAncestors(dom: HTMLElement, dx: number, dy: number) {
+  for (let cur: any = dom; cur && (dx || dy);) {
+    if (cur.nodeType == 1) { // Element
+      if (cur == cur.ownerDocument.body) {
+        cur.ownerDocument.defaultView.scrollBy(dx, dy)
+        break
+      }
+      if (dy) {
+        let start = cur.scrollTop
+        cur.scrollTop += dy
+        dy -= cur.scrollTop - start
+      }
+      if (dx) {
+        let start = cur.scrollLeft
+        cur.scrollLeft += dx
+        dx -= cur.scrollLeft - start
+      }
+      cur = cur.assignedSlot || cur.parentNode
+    } else if (cur.nodeType == 11) { // A shadow root
+      cur = cur.host
+    } else {
+      break
+    }
+  }
+}
 
-export function scrollRectIntoView(dom: HTMLElement, rect: Rect) {
+export function scrollRectIntoView(dom: HTMLElement, rect: Rect, side: -1 | 1,
+                                   x: ScrollStrategy, y: ScrollStrategy,
+                                   xMargin: number, yMargin: number, ltr: boolean) {
   let doc = dom.ownerDocument!, win = doc.defaultView!
 
   for (let cur: any = dom.parentNode; cur;) {
@@ -117,14 +175,42 @@ export function scrollRectIntoView(dom: HTMLElement, rect: Rect) {
       }
 
       let moveX = 0, moveY = 0
-      if (rect.top < bounding.top)
-        moveY = -(bounding.top - rect.top + ScrollSpace)
-      else if (rect.bottom > bounding.bottom)
-        moveY = rect.bottom - bounding.bottom + ScrollSpace
-      if (rect.left < bounding.left)
-        moveX = -(bounding.left - rect.left + ScrollSpace)
-      else if (rect.right > bounding.right)
-        moveX = rect.right - bounding.right + ScrollSpace
+      if (y == "nearest") {
+        if (rect.top < bounding.top) {
+          moveY = -(bounding.top - rect.top + yMargin)
+          // When the rectangle doesn't fit, keep the side that `side`
+          // points at in view
+          if (side > 0 && rect.bottom > bounding.bottom + moveY)
+            moveY = rect.bottom - bounding.bottom + moveY + yMargin
+        } else if (rect.bottom > bounding.bottom) {
+          moveY = rect.bottom - bounding.bottom + yMargin
+          if (side < 0 && (rect.top - moveY) < bounding.top)
+            moveY = -(bounding.top + moveY - rect.top + yMargin)
+        }
+      } else {
+        let rectHeight = rect.bottom - rect.top, boundingHeight = bounding.bottom - bounding.top
+        let targetTop =
+          y == "center" && rectHeight <= boundingHeight ? rect.top + rectHeight / 2 - boundingHeight / 2 :
+          y == "start" || y == "center" && side < 0 ? rect.top - yMargin :
+          rect.bottom - boundingHeight + yMargin
+        moveY = targetTop - bounding.top
+      }
+      if (x == "nearest") {
+        if (rect.left < bounding.left) {
+          moveX = -(bounding.left - rect.left + xMargin)
+          if (side > 0 && rect.right > bounding.right + moveX)
+            moveX = rect.right - bounding.right + moveX + xMargin
+        } else if (rect.right > bounding.right) {
+          moveX = rect.right - bounding.right + xMargin
+          if (side < 0 && rect.left < bounding.left + moveX)
+            moveX = -(bounding.left + moveX - rect.left + xMargin)
+        }
+      } else {
+        let targetLeft = x == "center" ? rect.left + (rect.right - rect.left) / 2 - (bounding.right - bounding.left) / 2 :
+          (x == "start") == ltr ? rect.left - xMargin :
+          rect.right - (bounding.right - bounding.left) + xMargin
+        moveX = targetLeft - bounding.left
+      }
       if (moveX || moveY) {
         if (top) {
           win.scrollBy(moveX, moveY)
@@ -145,6 +231,9 @@ export function scrollRectIntoView(dom: HTMLElement, rect: Rect) {
       }
       if (top) break
       cur = cur.assignedSlot || cur.parentNode
+      // Once the target has been aligned in the innermost scrollable
+      // element, outer elements only need to make it visible
+      x = y = "nearest"
     } else if (cur.nodeType == 11) { // A shadow root
       cur = cur.host
     } else {
@@ -1,6 +1,9 @@
 import {EditorView} from "./editorview"
 import {ContentView} from "./contentview"
 import {inputHandler, editable} from "./extension"
+import {editBlocked} from "./input"
+import {skipAtomsForSelection} from "./cursor"
+import {snapToCluster} from "./grapheme"
 import {contains} from "./dom"
 import browser from "./browser"
 import {EditorSelection, Transaction, Annotation, Text} from "@codemirror/state"
@@ -38,8 +41,12 @@ export function applyDOMChange(view: EditorView, start: number, end: number, typ
       !contains(view.contentDOM, domSel.anchorNode)
       ? view.state.selection.main.anchor
       : view.docView.posFromDOM(domSel.anchorNode!, domSel.anchorOffset)
-    if (head != sel.head || anchor != sel.anchor)
-      newSel = EditorSelection.single(anchor, head)
+    // Don't let the browser put the selection inside a grapheme cluster
+    let snapHead = snapToCluster(view.state.doc, head), snapAnchor = snapToCluster(view.state.doc, anchor)
+    if (snapHead != sel.head || snapAnchor != sel.anchor)
+      newSel = EditorSelection.single(snapAnchor, snapHead)
+    else if (snapHead != head || snapAnchor != anchor)
+      view.observer.ignore(() => view.docView.updateSelection())
   }
 
   if (!change && !newSel) return
@@ -79,6 +86,10 @@ export function applyDOMChange(view: EditorView, start: number, end: number, typ
           dispatchKey(view, "Backspace", 8))))
       return
 
+    // The DOM observer will restore the content when no transaction
+    // is dispatched here
+    if (editBlocked(view, "input")) return
+
     let text = change.insert.toString()
     if (view.state.facet(inputHandler).some(h => h(view, change!.from, change!.to, text)))
       return
@@ -100,7 +111,7 @@ export function applyDOMChange(view: EditorView, start: number, end: number, typ
       }
     }
     view.dispatch(tr, {scrollIntoView: true, annotations: Transaction.userEvent.of("input")})
-  } else if (newSel && !newSel.main.eq(sel)) {
+  } else if (newSel && !(newSel = skipAtomsForSelection(view, newSel, view.state.selection)).main.eq(sel)) {
     let scrollIntoView = false, annotations: Annotation<any> | undefined
     if (view.inputState.lastSelectionTime > Date.now() - 50) {
       if (view.inputState.lastSelectionOrigin == "keyboardselection") scrollIntoView = true
@@ -32,6 +32,16 @@ export class DOMObserver {
   intersection: IntersectionObserver | null = null
   intersecting: boolean = false
 
+  // Used to notice size changes of the editor and its content, and
+  // the editor being attached to or detached from a document
+  resize: ResizeObserver | null = null
+  contentWidth = -1
+  attached = false
+
+  // Matches the current device pixel ratio, so that zooming can be
+  // noticed
+  pixelRatioQuery: MediaQueryList | null = null
+
   // Used to work around a Safari Selection/shadow DOM bug (#414)
   _selectionRange: SelectionRange | null = null
 
@@ -86,7 +96,76 @@ export class DOMObserver {
       }, {})
       this.intersection.observe(this.dom)
     }
+    if (typeof ResizeObserver == "function") {
+      this.resize = new ResizeObserver(entries => this.onResize(entries))
+      this.resize.observe(view.dom)
+      this.resize.observe(this.dom)
+    }
     this.listenForScroll()
+
+    this.refreshMetrics = this.refreshMetrics.bind(this)
+    this.onPixelRatioChange = this.onPixelRatioChange.bind(this)
+    let {fonts} = view.dom.ownerDocument
+    if (fonts) fonts.addEventListener("loadingdone", this.refreshMetrics)
+    this.watchPixelRatio()
+  }
+
+  // Called when fonts or zoom level change, which may change the
+  // size of the text without changing the line heights that the
+  // view notices
+  refreshMetrics() {
+    this.view.viewState.mustRefreshOracle = true
+    this.view.requestMeasure()
+  }
+
+  watchPixelRatio() {
+    let win = this.view.dom.ownerDocument.defaultView
+    if (!win || typeof win.matchMedia != "function") return
+    let query = this.pixelRatioQuery = win.matchMedia(`(resolution: ${win.devicePixelRatio}dppx)`)
+    // IE11 and older Safari only support the deprecated addListener
+    if (query.addEventListener) query.addEventListener("change", this.onPixelRatioChange)
+    else query.addListener(this.onPixelRatioChange)
+  }
+
+  unwatchPixelRatio() {
+    let query = this.pixelRatioQuery
+    if (!query) return
+    if (query.removeEventListener) query.removeEventListener("change", this.onPixelRatioChange)
+    else query.removeListener(this.onPixelRatioChange)
+    this.pixelRatioQuery = null
+  }
+
+  onPixelRatioChange() {
+    // The query only matches the old ratio, so create a new one
+    this.unwatchPixelRatio()
+    this.watchPixelRatio()
+    this.refreshMetrics()
+  }
+
+  onResize(entries: readonly ResizeObserverEntry[]) {
+    let attached = this.view.dom.isConnected, measure = false
+    if (attached != this.attached) {
+      this.attached = attached
+      // The set of scrollable parents changes when the editor is
+      // (re)attached, and it can only be measured once it is
+      if (attached) {
+        this.listenForScroll()
+        measure = true
+      }
+    }
+    for (let entry of entries) {
+      if (entry.target == this.dom) {
+        // The content's height changes whenever its content is
+        // redrawn, so only changes in width are interesting here
+        if (entry.contentRect.width != this.contentWidth) {
+          this.contentWidth = entry.contentRect.width
+          measure = true
+        }
+      } else {
+        measure = true
+      }
+    }
+    if (measure && attached) this.view.requestMeasure()
   }
 
   onScroll(e: Event) {
@@ -262,6 +341,10 @@ export class DOMObserver {
   destroy() {
     this.stop()
     if (this.intersection) this.intersection.disconnect()
+    if (this.resize) this.resize.disconnect()
+    let {fonts} = this.view.dom.ownerDocument
+    if (fonts) fonts.removeEventListener("loadingdone", this.refreshMetrics)
+    this.unwatchPixelRatio()
     for (let dom of this.scrollTargets) dom.removeEventListener("scroll", this.onScroll)
     window.removeEventListener("scroll", this.onScroll)
     clearTimeout(this.parentCheck)
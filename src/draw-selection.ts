@@ -1,7 +1,8 @@
-import {EditorSelection, SelectionRange, Extension, Facet, combineConfig, Prec} from "@codemirror/state"
-import {ViewPlugin, ViewUpdate} from "./extension"
+import {EditorSelection, EditorState, SelectionRange, Extension, Facet, combineConfig, Prec} from "@codemirror/state"
+import {ViewUpdate} from "./extension"
 import {EditorView} from "./editorview"
-import {Direction} from "./bidi"
+import {layer, LayerMarker, RectangleMarker} from "./layer"
+import {clusterBreak} from "./grapheme"
 import browser from "./browser"
 
 const CanHidePrimary = !browser.ios // FIXME test IE
@@ -13,20 +14,42 @@ type SelectionConfig = {
   /// Whether to show a cursor for non-empty ranges. Defaults to
   /// true.
   drawRangeCursor?: boolean
+  /// The width, in pixels, of [bar-shaped](#view.cursorShape)
+  /// cursors. When not given, the width set by the theme is used.
+  cursorWidth?: number
 }
 
 const selectionConfig = Facet.define<SelectionConfig, Required<SelectionConfig>>({
   combine(configs) {
     return combineConfig(configs, {
       cursorBlinkRate: 1200,
-      drawRangeCursor: true
+      drawRangeCursor: true,
+      cursorWidth: 0
     }, {
       cursorBlinkRate: (a, b) => Math.min(a, b),
-      drawRangeCursor: (a, b) => a || b
+      drawRangeCursor: (a, b) => a || b,
+      cursorWidth: (a, b) => Math.max(a, b)
     })
   }
 })
 
+/// The shapes that cursors drawn by
+/// [`drawSelection`](#view.drawSelection) can take. `"bar"` draws a
+/// thin vertical line before the character at the cursor, `"block"`
+/// covers that character, and `"underline"` draws a line below it.
+export type CursorShape = "bar" | "block" | "underline"
+
+/// Facet used to select the shape of the cursors drawn by
+/// [`drawSelection`](#view.drawSelection). Defaults to `"bar"`. When
+/// multiple values are provided, the one with the highest precedence
+/// is used. To switch shapes dynamically (for example, when entering
+/// a modal editing mode), provide this from a [state
+/// field](#state.StateField^define^config.provide) or put it in a
+/// [compartment](#state.Compartment).
+export const cursorShape = Facet.define<CursorShape, CursorShape>({
+  combine: values => values.length ? values[0] : "bar"
+})
+
 /// Returns an extension that hides the browser's native selection and
 /// cursor, replacing the selection with a background behind the text
 /// (with the `cm-selectionBackground` class), and the
@@ -46,17 +69,45 @@ const selectionConfig = Facet.define<SelectionConfig, Required<SelectionConfig>>
 export function drawSelection(config: SelectionConfig = {}): Extension {
   return [
     selectionConfig.of(config),
-    drawSelectionPlugin,
+    selectionLayer,
+    cursorLayer,
     hideNativeSelection
   ]
 }
 
-type Measure = {rangePieces: Piece[], cursors: Piece[]}
+const cursorLayer = layer({
+  above: true,
+  markers(view) {
+    let {state} = view, conf = state.facet(selectionConfig), shape = state.facet(cursorShape), cursors = []
+    for (let r of state.selection.ranges) {
+      let prim = r == state.selection.main
+      if (r.empty ? !prim || CanHidePrimary : conf.drawRangeCursor) {
+        let className = prim ? "cm-cursor cm-cursor-primary" : "cm-cursor cm-cursor-secondary"
+        let marker = measureCursor(view, r.empty ? r : EditorSelection.cursor(r.head, r.assoc), className,
+                                   shape, conf.cursorWidth)
+        if (marker) cursors.push(marker)
+      }
+    }
+    return cursors
+  },
+  update(update, dom) {
+    if (update.transactions.some(tr => tr.scrollIntoView))
+      dom.style.animationName = dom.style.animationName == "cm-blink" ? "cm-blink2" : "cm-blink"
+    let confChange = configChanged(update)
+    if (confChange) setBlinkRate(update.state, dom)
+    return update.selectionSet || confChange || update.startState.facet(cursorShape) != update.state.facet(cursorShape)
+  },
+  mount(dom, view) {
+    setBlinkRate(view.state, dom)
+  },
+  class: "cm-cursorLayer"
+})
 
-class Piece {
-  constructor(readonly left: number, readonly top: number,
+class CursorMarker implements LayerMarker {
+  constructor(readonly className: string,
+              readonly left: number, readonly top: number,
               readonly width: number, readonly height: number,
-              readonly className: string) {}
+              readonly shape: CursorShape, readonly barWidth: number) {}
 
   draw() {
     let elt = document.createElement("div")
@@ -65,90 +116,75 @@ class Piece {
     return elt
   }
 
+  update(elt: HTMLElement, prev: CursorMarker) {
+    if (prev.className != this.className || prev.shape != this.shape) return false
+    this.adjust(elt)
+    return true
+  }
+
   adjust(elt: HTMLElement) {
     elt.style.left = this.left + "px"
     elt.style.top = this.top + "px"
-    if (this.width >= 0) elt.style.width = this.width + "px"
     elt.style.height = this.height + "px"
+    if (this.shape != "bar") {
+      elt.style.width = this.width + "px"
+    } else {
+      // Clear a previously set width when it goes back to the default
+      elt.style.borderLeftWidth = this.barWidth ? this.barWidth + "px" : ""
+      elt.style.marginLeft = this.barWidth ? (-this.barWidth / 2) + "px" : ""
+    }
   }
 
-  eq(p: Piece) {
-    return this.left == p.left && this.top == p.top && this.width == p.width && this.height == p.height &&
-      this.className == p.className
+  eq(other: CursorMarker) {
+    return this.left == other.left && this.top == other.top && this.width == other.width &&
+      this.height == other.height && this.className == other.className && this.shape == other.shape &&
+      this.barWidth == other.barWidth
   }
 }
 
-const drawSelectionPlugin = ViewPlugin.fromClass(class {
-  rangePieces: readonly Piece[] = []
-  cursors: readonly Piece[] = []
-  measureReq: {read: () => Measure, write: (value: Measure) => void}
-  selectionLayer: HTMLElement
-  cursorLayer: HTMLElement
-
-  constructor(readonly view: EditorView) {
-    this.measureReq = {read: this.readPos.bind(this), write: this.drawSel.bind(this)}
-    this.selectionLayer = view.scrollDOM.appendChild(document.createElement("div"))
-    this.selectionLayer.className = "cm-selectionLayer"
-    this.selectionLayer.setAttribute("aria-hidden", "true")
-    this.cursorLayer = view.scrollDOM.appendChild(document.createElement("div"))
-    this.cursorLayer.className = "cm-cursorLayer"
-    this.cursorLayer.setAttribute("aria-hidden", "true")
-    view.requestMeasure(this.measureReq)
-    this.setBlinkRate()
-  }
-
-  setBlinkRate() {
-    this.cursorLayer.style.animationDuration = this.view.state.facet(selectionConfig).cursorBlinkRate + "ms"
-  }
-
-  update(update: ViewUpdate) {
-    let confChanged = update.startState.facet(selectionConfig) != update.state.facet(selectionConfig)
-    if (confChanged || update.selectionSet || update.geometryChanged || update.viewportChanged)
-      this.view.requestMeasure(this.measureReq)
-    if (update.transactions.some(tr => tr.scrollIntoView))
-      this.cursorLayer.style.animationName = this.cursorLayer.style.animationName == "cm-blink" ? "cm-blink2" : "cm-blink"
-    if (confChanged) this.setBlinkRate()
-  }
-
-  readPos(): Measure {
-    let {state} = this.view, conf = state.facet(selectionConfig)
-    let rangePieces = state.selection.ranges.map(r => r.empty ? [] : measureRange(this.view, r)).reduce((a, b) => a.concat(b))
-    let cursors = []
-    for (let r of state.selection.ranges) {
-      let prim = r == state.selection.main
-      if (r.empty ? !prim || CanHidePrimary : conf.drawRangeCursor) {
-        let piece = measureCursor(this.view, r, prim)
-        if (piece) cursors.push(piece)
+function measureCursor(view: EditorView, cursor: SelectionRange, className: string,
+                       shape: CursorShape, barWidth: number): CursorMarker | null {
+  let [rect] = RectangleMarker.forRange(view, className, cursor)
+  if (!rect) return null
+  let left = rect.left, width = 0
+  if (shape != "bar") {
+    // Block and underline cursors cover the character after the
+    // cursor, or a character-sized area at the end of a line
+    let line = view.state.doc.lineAt(cursor.head)
+    if (cursor.head < line.to) {
+      let next = line.from + clusterBreak(line.text, cursor.head - line.from)
+      let [end] = RectangleMarker.forRange(view, className, EditorSelection.cursor(next, -1))
+      if (end && Math.abs(end.top - rect.top) < 2) {
+        left = Math.min(rect.left, end.left)
+        width = Math.abs(end.left - rect.left)
       }
     }
-    return {rangePieces, cursors}
+    if (width < 1) width = view.defaultCharacterWidth
+    className += " cm-cursor-" + shape
   }
+  return new CursorMarker(className, left, rect.top, width, rect.height, shape, barWidth)
+}
 
-  drawSel({rangePieces, cursors}: Measure) {
-    if (rangePieces.length != this.rangePieces.length || rangePieces.some((p, i) => !p.eq(this.rangePieces[i]))) {
-      this.selectionLayer.textContent = ""
-      for (let p of rangePieces) this.selectionLayer.appendChild(p.draw())
-      this.rangePieces = rangePieces
-    }
-    if (cursors.length != this.cursors.length || cursors.some((c, i) => !c.eq(this.cursors[i]))) {
-      let oldCursors = this.cursorLayer.children
-      if (oldCursors.length !== cursors.length) {
-        this.cursorLayer.textContent = ""
-        for (const c of cursors)
-          this.cursorLayer.appendChild(c.draw())
-      } else {
-        cursors.forEach((c, idx) => c.adjust(oldCursors[idx] as HTMLElement))
-      }
-      this.cursors = cursors
-    }
-  }
+function setBlinkRate(state: EditorState, dom: HTMLElement) {
+  dom.style.animationDuration = state.facet(selectionConfig).cursorBlinkRate + "ms"
+}
 
-  destroy() {
-    this.selectionLayer.remove()
-    this.cursorLayer.remove()
-  }
+const selectionLayer = layer({
+  above: false,
+  markers(view) {
+    return view.state.selection.ranges.map(r => r.empty ? [] : RectangleMarker.forRange(view, "cm-selectionBackground", r))
+      .reduce((a, b) => a.concat(b))
+  },
+  update(update) {
+    return update.selectionSet || configChanged(update)
+  },
+  class: "cm-selectionLayer"
 })
 
+function configChanged(update: ViewUpdate) {
+  return update.startState.facet(selectionConfig) != update.state.facet(selectionConfig)
+}
+
 const themeSpec = {
   ".cm-line": {
     "& ::selection": {backgroundColor: "transparent !important"},
@@ -157,102 +193,3 @@ const themeSpec = {
 }
 if (CanHidePrimary) (themeSpec as any)[".cm-line"].caretColor = "transparent !important"
 const hideNativeSelection = Prec.override(EditorView.theme(themeSpec))
-
-
-
-function getBase(view: EditorView) {
-  let rect = view.scrollDOM.getBoundingClientRect()
-  let left = view.textDirection == Direction.LTR ? rect.left : rect.right - view.scrollDOM.clientWidth
-  return {left: left - view.scrollDOM.scrollLeft, top: rect.top - view.scrollDOM.scrollTop}
-}
-
-function wrappedLine(view: EditorView, pos: number, inside: {from: number, to: number}) {
-  let range = EditorSelection.cursor(pos)
-  return {from: Math.max(inside.from, view.moveToLineBoundary(range, false, true).from),
-          to: Math.min(inside.to, view.moveToLineBoundary(range, true, true).from)}
-}
-
-function measureRange(view: EditorView, range: SelectionRange): Piece[] {
-  if (range.to <= view.viewport.from || range.from >= view.viewport.to) return []
-  let from = Math.max(range.from, view.viewport.from), to = Math.min(range.to, view.viewport.to)
-
-  let ltr = view.textDirection == Direction.LTR
-  let content = view.contentDOM, contentRect = content.getBoundingClientRect(), base = getBase(view)
-  let lineStyle = window.getComputedStyle(content.firstChild as HTMLElement)
-  let leftSide = contentRect.left + parseInt(lineStyle.paddingLeft)
-  let rightSide = contentRect.right - parseInt(lineStyle.paddingRight)
-
-  let visualStart: {from: number, to: number} = view.visualLineAt(from)
-  let visualEnd: {from: number, to: number} = view.visualLineAt(to)
-  if (view.lineWrapping) {
-    visualStart = wrappedLine(view, from, visualStart)
-    visualEnd = wrappedLine(view, to, visualEnd)
-  }
-  if (visualStart.from == visualEnd.from) {
-    return pieces(drawForLine(range.from, range.to, visualStart))
-  } else {
-    let top = drawForLine(range.from, null, visualStart)
-    let bottom = drawForLine(null, range.to, visualEnd)
-    let between = []
-    if (visualStart.to < visualEnd.from - 1)
-      between.push(piece(leftSide, top.bottom, rightSide, bottom.top))
-    else if (top.bottom < bottom.top && bottom.top - top.bottom < 4)
-      top.bottom = bottom.top = (top.bottom + bottom.top) / 2
-    return pieces(top).concat(between).concat(pieces(bottom))
-  }
-
-  function piece(left: number, top: number, right: number, bottom: number) {
-    return new Piece(left - base.left, top - base.top, right - left, bottom - top, "cm-selectionBackground")
-  }
-  function pieces({top, bottom, horizontal}: {top: number, bottom: number, horizontal: number[]}) {
-    let pieces = []
-    for (let i = 0; i < horizontal.length; i += 2)
-      pieces.push(piece(horizontal[i], top, horizontal[i + 1], bottom))
-    return pieces
-  }
-
-  // Gets passed from/to in line-local positions
-  function drawForLine(from: null | number, to: null | number, line: {from: number, to: number}) {
-    let top = 1e9, bottom = -1e9, horizontal: number[] = []
-    function addSpan(from: number, fromOpen: boolean, to: number, toOpen: boolean, dir: Direction) {
-      let fromCoords = view.coordsAtPos(from, from == line.to ? -1 : 1)!
-      let toCoords = view.coordsAtPos(to, to == line.from ? 1 : -1)!
-      top = Math.min(fromCoords.top, toCoords.top, top)
-      bottom = Math.max(fromCoords.bottom, toCoords.bottom, bottom)
-      if (dir == Direction.LTR)
-        horizontal.push(ltr && fromOpen ? leftSide : fromCoords.left,
-                        ltr && toOpen ? rightSide : toCoords.right)
-      else
-        horizontal.push(!ltr && toOpen ? leftSide : toCoords.left,
-                        !ltr && fromOpen ? rightSide : fromCoords.right)
-    }
-
-    let start = from ?? line.from, end = to ?? line.to
-    // Split the range by visible range and document line
-    for (let r of view.visibleRanges) if (r.to > start && r.from < end) {
-      for (let pos = Math.max(r.from, start), endPos = Math.min(r.to, end);;) {
-        let docLine = view.state.doc.lineAt(pos)
-        for (let span of view.bidiSpans(docLine)) {
-          let spanFrom = span.from + docLine.from, spanTo = span.to + docLine.from
-          if (spanFrom >= endPos) break
-          if (spanTo > pos)
-            addSpan(Math.max(spanFrom, pos), from == null && spanFrom <= start,
-                    Math.min(spanTo, endPos), to == null && spanTo >= end, span.dir)
-        }
-        pos = docLine.to + 1
-        if (pos >= endPos) break
-      }
-    }
-    if (horizontal.length == 0) addSpan(start, from == null, end, to == null, view.textDirection)
- 
-    return {top, bottom, horizontal}
-  }
-}
-
-function measureCursor(view: EditorView, cursor: SelectionRange, primary: boolean): Piece | null {
-  let pos = view.coordsAtPos(cursor.head, cursor.assoc || 1)
-  if (!pos) return null
-  let base = getBase(view)
-  return new Piece(pos.left - base.left, pos.top - base.top, -1, pos.bottom - pos.top,
-                   primary ? "cm-cursor cm-cursor-primary" : "cm-cursor cm-cursor-secondary")
-}
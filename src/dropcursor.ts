@@ -0,0 +1,56 @@
+import {StateField, StateEffect, EditorSelection, Extension} from "@codemirror/state"
+import {EditorView} from "./editorview"
+import {layer, RectangleMarker} from "./layer"
+
+const setDropCursorPos = StateEffect.define<number | null>({
+  map(pos, mapping) { return pos == null ? null : mapping.mapPos(pos) }
+})
+
+const dropCursorPos = StateField.define<number | null>({
+  create() { return null },
+  update(pos, tr) {
+    if (pos != null) pos = tr.changes.mapPos(pos)
+    for (let e of tr.effects) if (e.is(setDropCursorPos)) pos = e.value
+    return pos
+  }
+})
+
+const dropCursorLayer = layer({
+  above: true,
+  markers(view) {
+    let pos = view.state.field(dropCursorPos)
+    return pos == null ? [] : RectangleMarker.forRange(view, "cm-dropCursor", EditorSelection.cursor(pos))
+  },
+  update(update) {
+    return update.startState.field(dropCursorPos, false) != update.state.field(dropCursorPos)
+  },
+  class: "cm-dropCursorLayer"
+})
+
+function setDropPos(view: EditorView, pos: number | null) {
+  if (view.state.field(dropCursorPos) != pos) view.dispatch({effects: setDropCursorPos.of(pos)})
+}
+
+const dropCursorHandlers = EditorView.domEventHandlers({
+  dragover(event, view) {
+    setDropPos(view, view.posAtCoords({x: event.clientX, y: event.clientY}))
+  },
+  dragleave(event, view) {
+    // Moving between elements inside the content also fires dragleave
+    if (!view.contentDOM.contains(event.relatedTarget as HTMLElement | null))
+      setDropPos(view, null)
+  },
+  dragend(_event, view) {
+    setDropPos(view, null)
+  },
+  drop(_event, view) {
+    setDropPos(view, null)
+  }
+})
+
+/// Draws a cursor at the current drop position when something is
+/// dragged over the editor. The cursor gets the `cm-dropCursor`
+/// class, and is drawn in a [layer](#view.layer) above the text.
+export function dropCursor(): Extension {
+  return [dropCursorPos, dropCursorLayer, dropCursorHandlers]
+}
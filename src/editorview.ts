@@ -5,21 +5,24 @@ import {StyleModule, StyleSpec} from "style-mod"
 
 import {DocView} from "./docview"
 import {ContentView} from "./contentview"
+import {WidgetType} from "./decoration"
 import {InputState} from "./input"
 import {Rect, focusPreventScroll, flattenRect} from "./dom"
-import {posAtCoords, moveByChar, moveToLineBoundary, byGroup, moveVertically} from "./cursor"
+import {posAtCoords, moveByChar, moveToLineBoundary, moveByGroup, moveBySubword, moveVertically, skipAtoms} from "./cursor"
 import {BlockInfo} from "./heightmap"
 import {ViewState} from "./viewstate"
 import {ViewUpdate, styleModule,
         contentAttributes, editorAttributes, clickAddsSelectionRange, dragMovesSelection, mouseSelectionStyle,
-        exceptionSink, updateListener, logException, viewPlugin, ViewPlugin, PluginInstance, PluginField,
-        decorations, MeasureRequest, UpdateFlag, editable, inputHandler} from "./extension"
+        clickSelectionUnit, exceptionSink, updateListener, logException, viewPlugin, ViewPlugin, PluginInstance, PluginField,
+        decorations, MeasureRequest, UpdateFlag, editable, readOnly, blockedEditListener, inputHandler, atomicRanges,
+        subwordBoundary, wordSegmenter, ScrollTarget, ScrollStrategy, scrollIntoView} from "./extension"
 import {theme, darkTheme, buildTheme, baseThemeID, baseLightID, baseDarkID, lightDarkIDs, baseTheme} from "./theme"
 import {DOMObserver} from "./domobserver"
 import {Attrs, updateAttrs, combineAttrs} from "./attributes"
 import browser from "./browser"
 import {applyDOMChange} from "./domchange"
 import {computeOrder, trivialOrder, BidiSpan, Direction} from "./bidi"
+import {perfTracer, TraceBuilder, traceTime} from "./trace"
 
 interface EditorConfig {
   /// The view's initial state. Defaults to an extension-less state
@@ -39,6 +42,11 @@ interface EditorConfig {
   /// element on creation. (Otherwise, you'll have to place the view's
   /// [`dom`](#view.EditorView.dom) element in the document yourself.)
   parent?: Element | DocumentFragment
+  /// Pass an effect created with
+  /// [`scrollIntoView`](#view.EditorView^scrollIntoView) or
+  /// [`scrollSnapshot`](#view.EditorView.scrollSnapshot) here to set
+  /// an initial scroll position.
+  scrollTo?: StateEffect<any>
 }
 
 export const enum UpdateState {
@@ -139,6 +147,13 @@ export class EditorView {
   /// @internal
   measureRequests: MeasureRequest<any>[] = []
 
+  // Widgets whose DOM was created but whose `mounted` method hasn't
+  // been called yet
+  private mounting: {widget: WidgetType, dom: HTMLElement}[] = []
+
+  // Holds the trace for the current update cycle, when tracing
+  private trace: TraceBuilder | null = null
+
   /// Construct a new view. You'll usually want to put `view.dom` into
   /// your document after creating a view, so that the user can see
   /// it.
@@ -166,7 +181,10 @@ export class EditorView {
     this.root = (config.root || document) as DocumentOrShadowRoot
 
     this.viewState = new ViewState(config.state || EditorState.create())
+    if (config.scrollTo && config.scrollTo.is(scrollIntoView))
+      this.viewState.scrollTarget = config.scrollTo.value
     this.plugins = this.state.facet(viewPlugin).map(spec => new PluginInstance(spec).update(this))
+    this.viewState.updatePluginDeco(this.pluginField(PluginField.layoutDecorations))
     this.observer = new DOMObserver(this, (from, to, typeOver) => {
       applyDOMChange(this, from, to, typeOver)
     }, event => {
@@ -210,7 +228,7 @@ export class EditorView {
     if (this.updateState != UpdateState.Idle)
       throw new Error("Calls to EditorView.update are not allowed while an update is in progress")
 
-    let redrawn = false, update: ViewUpdate
+    let redrawn = false, update: ViewUpdate, scrollTarget: ScrollTarget | null = null
     let state = this.state
     for (let tr of transactions) {
       if (tr.startState != state)
@@ -222,18 +240,42 @@ export class EditorView {
       return this.setState(state)
 
     update = new ViewUpdate(this, state, transactions)
+    let trace = this.trace = TraceBuilder.start(state, "update", this.docView.syncCounts)
     try {
       this.updateState = UpdateState.Updating
-      let scrollTo = transactions.some(tr => tr.scrollIntoView) ? state.selection.main : null
-      this.viewState.update(update, scrollTo)
+      for (let tr of transactions) {
+        if (scrollTarget) scrollTarget = scrollTarget.map(tr.changes)
+        if (tr.scrollIntoView) {
+          let {main} = tr.state.selection
+          scrollTarget = new ScrollTarget(
+            main.empty ? main : EditorSelection.cursor(main.head, main.head > main.anchor ? -1 : 1))
+        }
+        for (let e of tr.effects) if (e.is(scrollIntoView)) scrollTarget = e.value
+      }
+      this.viewState.update(update, scrollTarget)
       this.bidiCache = CachedOrder.update(this.bidiCache, update.changes)
-      if (!update.empty) this.updatePlugins(update)
+      if (!update.empty) {
+        this.updatePlugins(update)
+        let layout = this.viewState.updatePluginDeco(this.pluginField(PluginField.layoutDecorations))
+        update.flags |= layout
+        // The plugins were updated before the viewport moved, so have
+        // the next measure report that to them (inside the measure
+        // loop, the change is part of the cycle's own update)
+        this.viewState.pendingFlags |= layout & UpdateFlag.Viewport
+      }
+      let start = trace ? traceTime() : 0
       redrawn = this.docView.update(update)
+      if (trace) trace.docViewTime += traceTime() - start
       if (this.state.facet(styleModule) != this.styleModules) this.mountStyles()
       this.updateAttrs()
       this.showAnnouncements(transactions)
-    } finally { this.updateState = UpdateState.Idle }
-    if (redrawn || scrollTo || this.viewState.mustEnforceCursorAssoc) this.requestMeasure()
+    } finally {
+      this.updateState = UpdateState.Idle
+      this.trace = null
+    }
+    if (trace) trace.finish(this.state)
+    if (redrawn || scrollTarget || this.viewState.mustEnforceCursorAssoc || this.viewState.pendingFlags)
+      this.requestMeasure()
     if (!update.empty) for (let listener of this.state.facet(updateListener)) listener(update)
   }
 
@@ -250,6 +292,8 @@ export class EditorView {
       for (let plugin of this.plugins) plugin.destroy(this)
       this.viewState = new ViewState(newState)
       this.plugins = newState.facet(viewPlugin).map(spec => new PluginInstance(spec).update(this))
+      this.viewState.updatePluginDeco(this.pluginField(PluginField.layoutDecorations))
+      this.docView.destroy()
       this.docView = new DocView(this)
       this.inputState.ensureHandlers(this)
       this.mountStyles()
@@ -279,8 +323,11 @@ export class EditorView {
     } else {
       for (let p of this.plugins) p.mustUpdate = update
     }
-    for (let i = 0; i < this.plugins.length; i++)
-      this.plugins[i] = this.plugins[i].update(this)
+    for (let i = 0; i < this.plugins.length; i++) {
+      let plugin = this.plugins[i], start = this.trace ? traceTime() : 0
+      this.plugins[i] = plugin.update(this)
+      if (this.trace) this.trace.plugins.push({plugin: plugin.spec, time: traceTime() - start})
+    }
   }
 
   /// @internal
@@ -289,45 +336,84 @@ export class EditorView {
     this.measureScheduled = -1 // Prevent requestMeasure calls from scheduling another animation frame
 
     let updated: ViewUpdate | null = null
+    let trace = this.trace = TraceBuilder.start(this.state, "measure", this.docView.syncCounts)
     try {
       for (let i = 0;; i++) {
         this.updateState = UpdateState.Measuring
         let changed = this.viewState.measure(this.docView, i > 0)
+        if (this.mounting.length) this.mountWidgets()
         let measuring = this.measureRequests
-        if (!changed && !measuring.length && this.viewState.scrollTo == null) break
+        if (!changed && !measuring.length && this.viewState.scrollTarget == null) break
         this.measureRequests = []
         if (i > 5) {
           console.warn("Viewport failed to stabilize")
           break
         }
-        let measured = measuring.map(m => {
+        if (trace) trace.measureIterations++
+        let records = trace ? measuring.map(request => ({request, read: 0, write: 0})) : null
+        let measured = measuring.map((m, i) => {
+          let start = records ? traceTime() : 0
           try { return m.read(this) }
           catch(e) { logException(this.state, e); return BadMeasure }
+          finally { if (records) records[i].read = traceTime() - start }
         })
         let update = new ViewUpdate(this, this.state)
         update.flags |= changed
         if (!updated) updated = update
         else updated.flags |= changed
         this.updateState = UpdateState.Updating
-        if (!update.empty) this.updatePlugins(update)
+        if (!update.empty) {
+          this.updatePlugins(update)
+          let layout = this.viewState.updatePluginDeco(this.pluginField(PluginField.layoutDecorations))
+          update.flags |= layout
+          changed |= layout
+        }
         this.updateAttrs()
-        if (changed) this.docView.update(update)
+        if (changed) {
+          let start = trace ? traceTime() : 0
+          this.docView.update(update)
+          if (trace) trace.docViewTime += traceTime() - start
+        }
         for (let i = 0; i < measuring.length; i++) if (measured[i] != BadMeasure) {
+          let start = records ? traceTime() : 0
           try { measuring[i].write(measured[i], this) }
           catch(e) { logException(this.state, e) }
+          if (records) records[i].write = traceTime() - start
         }
-        if (this.viewState.scrollTo) {
-          this.docView.scrollPosIntoView(this.viewState.scrollTo.head, this.viewState.scrollTo.assoc)
-          this.viewState.scrollTo = null
+        if (trace) trace.measureRequests.push(...records!)
+        if (this.viewState.scrollTarget) {
+          this.docView.scrollIntoView(this.viewState.scrollTarget)
+          this.viewState.scrollTarget = null
         }
         if (!(changed & UpdateFlag.Viewport) && this.measureRequests.length == 0) break
       }
-    } finally { this.updateState = UpdateState.Idle }
+    } finally {
+      this.updateState = UpdateState.Idle
+      this.trace = null
+    }
+    if (trace) trace.finish(this.state)
 
     this.measureScheduled = -1
     if (updated && !updated.empty) for (let listener of this.state.facet(updateListener)) listener(updated)
   }
 
+  /// @internal
+  mountWidget(widget: WidgetType, dom: HTMLElement) {
+    this.mounting.push({widget, dom})
+    this.requestMeasure()
+  }
+
+  private mountWidgets() {
+    // Wait until the editor is attached, so that widgets can measure
+    if (!this.dom.isConnected) return
+    let mounting = this.mounting
+    this.mounting = []
+    for (let {widget, dom} of mounting) if (dom.isConnected) {
+      try { widget.mounted!(dom, this) }
+      catch(e) { logException(this.state, e) }
+    }
+  }
+
   /// Get the CSS classes for the currently active editor themes.
   get themeClasses() {
     return baseThemeID + " " +
@@ -340,6 +426,7 @@ export class EditorView {
       // FIXME drop cm-wrap in next major release
       class: "cm-editor cm-wrap" + (this.hasFocus ? " cm-focused " : " ") + this.themeClasses
     })
+    for (let attrs of this.pluginField(PluginField.editorAttributes)) if (attrs) combineAttrs(attrs, editorAttrs)
     updateAttrs(this.dom, this.editorAttrs, editorAttrs)
     this.editorAttrs = editorAttrs
     let contentAttrs = combineAttrs(this.state.facet(contentAttributes), {
@@ -355,6 +442,8 @@ export class EditorView {
       role: "textbox",
       "aria-multiline": "true"
     })
+    for (let attrs of this.pluginField(PluginField.contentAttributes)) if (attrs) combineAttrs(attrs, contentAttrs)
+    if (this.state.facet(readOnly)) contentAttrs["aria-readonly"] = "true"
     updateAttrs(this.contentDOM, this.contentAttrs, contentAttrs)
     this.contentAttrs = contentAttrs
   }
@@ -473,10 +562,13 @@ export class EditorView {
     return this.viewState.contentHeight
   }
 
-  /// Move a cursor position by [grapheme
-  /// cluster](#text.findClusterBreak). `forward` determines whether
-  /// the motion is away from the line start, or towards it. Motion in
-  /// bidirectional text is in visual order, in the editor's [text
+  /// Move a cursor position by extended grapheme cluster (as
+  /// determined by `Intl.Segmenter` when available, or
+  /// [`findClusterBreak`](#text.findClusterBreak) otherwise), so that
+  /// emoji sequences, flags, and combining marks are moved over as a
+  /// whole. `forward` determines whether the motion is away from the
+  /// line start, or towards it. Motion in bidirectional text is in
+  /// visual order, in the editor's [text
   /// direction](#view.EditorView.textDirection). When the start
   /// position was the last one on the line, the returned position
   /// will be across the line break. If there is no further line, the
@@ -488,14 +580,26 @@ export class EditorView {
   /// a predicate that determines, for each subsequent cluster,
   /// whether it should also be moved over.
   moveByChar(start: SelectionRange, forward: boolean, by?: (initial: string) => (next: string) => boolean) {
-    return moveByChar(this, start, forward, by)
+    return skipAtoms(this, start, moveByChar(this, start, forward, by))
   }
 
   /// Move a cursor position across the next group of either
   /// [letters](#state.EditorState.charCategorizer) or non-letter
-  /// non-whitespace characters.
+  /// non-whitespace characters. In scripts that don't separate words
+  /// with spaces, such as Chinese or Thai, the motion stops at word
+  /// boundaries found by the [word
+  /// segmenter](#view.EditorView^wordSegmenter).
   moveByGroup(start: SelectionRange, forward: boolean) {
-    return moveByChar(this, start, forward, initial => byGroup(this, start.head, initial))
+    return skipAtoms(this, start, moveByGroup(this, start, forward))
+  }
+
+  /// Like [`moveByGroup`](#view.EditorView.moveByGroup), but also
+  /// stops inside words at [subword
+  /// boundaries](#view.EditorView^subwordBoundary), such as the case
+  /// transitions in `fooBarBaz`, the underscores in `foo_bar`, or the
+  /// start of the digits in `item2`.
+  moveBySubword(start: SelectionRange, forward: boolean) {
+    return skipAtoms(this, start, moveBySubword(this, start, forward))
   }
 
   /// Move to the next line boundary in the given direction. If
@@ -504,7 +608,7 @@ export class EditorView {
   /// returned. Otherwise this function will return the start or end
   /// of the line.
   moveToLineBoundary(start: SelectionRange, forward: boolean, includeWrap = true) {
-    return moveToLineBoundary(this, start, forward, includeWrap)
+    return skipAtoms(this, start, moveToLineBoundary(this, start, forward, includeWrap))
   }
 
   /// Move a cursor position vertically. When `distance` isn't given,
@@ -519,15 +623,36 @@ export class EditorView {
   /// cursor will have its goal column set to whichever column was
   /// used.
   moveVertically(start: SelectionRange, forward: boolean, distance?: number) {
-    return moveVertically(this, start, forward, distance)
+    return skipAtoms(this, start, moveVertically(this, start, forward, distance))
   }
 
   /// Scroll the given document position into view.
   scrollPosIntoView(pos: number) {
-    this.viewState.scrollTo = EditorSelection.cursor(pos)
+    this.viewState.scrollTarget = new ScrollTarget(EditorSelection.cursor(pos))
     this.requestMeasure()
   }
 
+  /// Return an effect that resets the editor to its current (at the
+  /// time this method was called) scroll position. The position is
+  /// stored relative to the line at the top of the
+  /// [scroller](#view.EditorView.scrollDOM), so that it stays
+  /// meaningful when line heights change. Note that this only
+  /// affects the editor's own scrollable element, not any parent
+  /// elements that may be scrolled.
+  ///
+  /// The effect can be dispatched to this view, or another view
+  /// (for example after calling
+  /// [`setState`](#view.EditorView.setState)), or passed as the
+  /// [`scrollTo`](#view.EditorView.constructor^config.scrollTo)
+  /// option when creating a view. To keep it valid across document
+  /// changes, [map](#state.StateEffect.map) it through those changes.
+  scrollSnapshot(): StateEffect<unknown> {
+    let scroller = this.scrollDOM, top = scroller.getBoundingClientRect().top
+    let line = this.visualLineAtHeight(top)
+    return scrollIntoView.of(new ScrollTarget(EditorSelection.cursor(line.from), "start", "start",
+                                              line.top - top, scroller.scrollLeft, true))
+  }
+
   /// Find the DOM parent node and offset (child offset if `node` is
   /// an element, character offset when it is a text node) at the
   /// given document position.
@@ -623,6 +748,7 @@ export class EditorView {
   destroy() {
     for (let plugin of this.plugins) plugin.destroy(this)
     this.inputState.destroy()
+    this.docView.destroy()
     this.dom.remove()
     this.observer.destroy()
     if (this.measureScheduled > -1) cancelAnimationFrame(this.measureScheduled)
@@ -675,12 +801,51 @@ export class EditorView {
   /// when those are bound to keys or buttons.)
   static editable = editable
 
+  /// Facet that can be used to register performance tracing
+  /// functions. When any are present, the view records timing
+  /// information for each update and layout check, and passes it to
+  /// these functions at the end of the cycle. When no tracers are
+  /// registered, no timing work is done.
+  static perfTracer = perfTracer
+
+  /// Facet that makes the editor read-only. Unlike turning off
+  /// [`editable`](#view.EditorView^editable), this leaves the content
+  /// focusable, so that the cursor and selection are still shown and
+  /// can be moved with the keyboard and mouse. Typing, pasting,
+  /// dropping, and cutting will not change the document, and instead
+  /// notify the [blocked edit
+  /// listeners](#view.EditorView^blockedEditListener). (Like
+  /// `editable`, this doesn't affect API calls or key-bound commands,
+  /// which should check this facet themselves.)
+  static readOnly = readOnly
+
+  /// Functions registered with this facet are called when the user
+  /// tries to change the content of a [read-only](#view.EditorView^readOnly)
+  /// editor, and the edit is refused. Can be used to show a hint that
+  /// the document can't be edited.
+  static blockedEditListener = blockedEditListener
+
   /// Allows you to influence the way mouse selection happens. The
   /// functions in this facet will be called for a `mousedown` event
   /// on the editor, and can return an object that overrides the way a
   /// selection is computed from that mouse click or drag.
   static mouseSelectionStyle = mouseSelectionStyle
 
+  /// Configures the unit by which the default mouse selection selects
+  /// for a given number of consecutive clicks. Values map click
+  /// counts to functions that, given a position and the side of it
+  /// that was clicked on, return the range that should be selected.
+  /// When dragging after such a click, the selection is extended by
+  /// that same unit. By default, a single click places a cursor, a
+  /// double click selects a [word](#view.EditorView.moveByGroup), and
+  /// a triple click selects a line. For click counts without a
+  /// function of their own, the one for the highest lower count is
+  /// used. When multiple values provide a function for the same
+  /// count, the one with the highest precedence is used. The default
+  /// units are available as
+  /// [`defaultClickUnits`](#view.defaultClickUnits).
+  static clickSelectionUnit = clickSelectionUnit
+
   /// Facet used to configure whether a given selection drag event
   /// should move or copy the selection. The given predicate will be
   /// called with the `mousedown` event, and can return `true` when
@@ -697,6 +862,44 @@ export class EditorView {
   /// mechanism for providing decorations.
   static decorations = decorations
 
+  /// Facet that provides sets of atomic ranges. Cursor motion through
+  /// the view's [motion methods](#view.EditorView.moveByChar), mouse
+  /// selection, and selection changes read from the DOM will skip
+  /// over these ranges, or select them as a whole, so that the cursor
+  /// never ends up inside of them. The values in the sets are
+  /// ignored. Plugins can provide atomic ranges through
+  /// [`PluginField.atomicRanges`](#view.PluginField^atomicRanges).
+  /// Commands that delete content should use
+  /// [`moveByChar`](#view.EditorView.moveByChar) (or consult these
+  /// ranges) to find the range to delete, so that atomic ranges are
+  /// deleted as a whole.
+  static atomicRanges = atomicRanges
+
+  /// Facet used to configure where [subword
+  /// motion](#view.EditorView.moveBySubword) stops. The function is
+  /// given the text of a line and an offset into it that falls
+  /// between two word characters, and should return true when there
+  /// is a subword boundary at that offset. The default stops at
+  /// transitions from lower to upper case (and before the last
+  /// letter of a run of capitals followed by a lowercase letter, as
+  /// in `XMLParser`), around underscores, and between digits and
+  /// other characters. When multiple values are provided, the one
+  /// with the highest precedence is used.
+  static subwordBoundary = subwordBoundary
+
+  /// Facet used to find word boundaries in text written in scripts
+  /// that don't put spaces between words (such as Chinese, Japanese,
+  /// Thai, Lao, Khmer, and Burmese). It is used by [group
+  /// motion](#view.EditorView.moveByGroup) and double-click word
+  /// selection. The function is given the text of a line and an
+  /// offset of a character in such a script, and should return the
+  /// extent of the word around that character, or null to fall back
+  /// to [character categories](#state.EditorState.charCategorizer).
+  /// By default, `Intl.Segmenter` is used when the platform supports
+  /// it. When multiple values are provided, the one with the highest
+  /// precedence is used.
+  static wordSegmenter = wordSegmenter
+
   /// Create a theme extension. The first argument can be a
   /// [`style-mod`](https://github.com/marijnh/style-mod#documentation)
   /// style spec providing the styles for the theme. These will be
@@ -748,6 +951,33 @@ export class EditorView {
   /// noticed by screen reader users (such as moving to the next
   /// search match).
   static announce = StateEffect.define<string>()
+
+  /// Returns an effect that can be
+  /// [added](#state.TransactionSpec.effects) to a transaction to
+  /// cause it to scroll the given position or range into view.
+  /// Unlike the transaction's `scrollIntoView` flag, which always
+  /// scrolls the main selection head the minimal amount, this allows
+  /// you to control the alignment and margins of the scroll.
+  static scrollIntoView(pos: number | SelectionRange, options: {
+    /// By default (`"nearest"`) the position will be vertically
+    /// scrolled only the minimal amount required to move the given
+    /// position into view. You can set this to `"start"` to move it
+    /// to the top of the view, `"end"` to move it to the bottom, or
+    /// `"center"` to move it to the center.
+    y?: ScrollStrategy,
+    /// Effect similar to [`y`](#view.EditorView^scrollIntoView^options.y),
+    /// but for horizontal scrolling. `"start"` and `"end"` refer to
+    /// the start and end of the line in the text direction.
+    x?: ScrollStrategy,
+    /// Extra vertical distance to add when moving something into
+    /// view. Not used with the `"center"` strategy. Defaults to 5.
+    yMargin?: number,
+    /// Extra horizontal distance to add. Defaults to 5.
+    xMargin?: number
+  } = {}): StateEffect<unknown> {
+    return scrollIntoView.of(new ScrollTarget(typeof pos == "number" ? EditorSelection.cursor(pos) : pos,
+                                              options.y, options.x, options.yMargin, options.xMargin))
+  }
 }
 
 /// Helper type that maps event names to event object types, or the
@@ -1,10 +1,12 @@
-import {EditorState, Transaction, ChangeSet, Facet, Extension} from "@codemirror/state"
+import {EditorState, Transaction, ChangeSet, ChangeDesc, Facet, Extension, StateEffect, SelectionRange} from "@codemirror/state"
 import {StyleModule} from "style-mod"
+import {RangeSet} from "@codemirror/rangeset"
 import {DecorationSet} from "./decoration"
 import {EditorView, DOMEventHandlers} from "./editorview"
 import {Attrs, combineAttrs} from "./attributes"
 import {Rect} from "./dom"
 import {MakeSelectionStyle} from "./input"
+import {intlWordAt} from "./grapheme"
 
 /// Command functions are used in key bindings and other types of user
 /// actions. Given an editor view, they check whether their effect can
@@ -21,6 +23,19 @@ export const dragMovesSelection = Facet.define<(event: MouseEvent) => boolean>()
 
 export const mouseSelectionStyle = Facet.define<MakeSelectionStyle>()
 
+type ClickUnits = {[clickCount: number]: (view: EditorView, pos: number, bias: -1 | 1) => SelectionRange}
+
+export const clickSelectionUnit = Facet.define<ClickUnits, ClickUnits>({
+  combine(values) {
+    let result: ClickUnits = {}
+    // Earlier (higher-precedence) values override later ones
+    for (let i = values.length - 1; i >= 0; i--) Object.assign(result, values[i])
+    return result
+  }
+})
+
+export const clipboardHTML = Facet.define<(view: EditorView, ranges: readonly {from: number, to: number}[]) => string | null>()
+
 export const exceptionSink = Facet.define<(exception: any) => void>()
 
 export const updateListener = Facet.define<(update: ViewUpdate) => void>()
@@ -47,6 +62,67 @@ export function logException(state: EditorState, exception: any, context?: strin
 
 export const editable = Facet.define<boolean, boolean>({combine: values => values.length ? values[0] : true })
 
+export const atomicRanges = Facet.define<RangeSet<any>>()
+
+function isUpper(ch: string) { return ch != ch.toLowerCase() }
+function isLower(ch: string) { return ch != ch.toUpperCase() }
+function isDigit(ch: string) { return ch >= "0" && ch <= "9" }
+
+function defaultSubwordBoundary(text: string, pos: number) {
+  let before = text.charAt(pos - 1), after = text.charAt(pos)
+  return (before == "_") != (after == "_") ||
+    isDigit(before) != isDigit(after) ||
+    isLower(before) && isUpper(after) ||
+    isUpper(before) && isUpper(after) && isLower(text.charAt(pos + 1))
+}
+
+export const wordSegmenter = Facet.define<(text: string, pos: number) => {from: number, to: number} | null,
+                                          (text: string, pos: number) => {from: number, to: number} | null>({
+  combine: values => values.length ? values[0] : intlWordAt
+})
+
+export const subwordBoundary = Facet.define<(text: string, pos: number) => boolean, (text: string, pos: number) => boolean>({
+  combine: values => values.length ? values[0] : defaultSubwordBoundary
+})
+
+export const readOnly = Facet.define<boolean, boolean>({combine: values => values.length ? values[0] : false})
+
+export const blockedEditListener = Facet.define<(view: EditorView, type: BlockedEditType) => void>()
+
+/// The kinds of user edits that a [read-only](#view.EditorView^readOnly)
+/// editor will refuse. `"input"` covers typing and other changes made
+/// directly to the editable DOM.
+export type BlockedEditType = "input" | "paste" | "drop" | "cut"
+
+/// Determines how a [scroll target](#view.EditorView^scrollIntoView)
+/// is positioned relative to the visible part of the editor.
+/// `"nearest"` scrolls only the minimal amount needed to bring it
+/// into view, `"start"` and `"end"` align it with the top/left or
+/// bottom/right side of the view, and `"center"` centers it.
+export type ScrollStrategy = "nearest" | "start" | "end" | "center"
+
+export class ScrollTarget {
+  constructor(
+    readonly range: SelectionRange,
+    readonly y: ScrollStrategy = "nearest",
+    readonly x: ScrollStrategy = "nearest",
+    readonly yMargin: number = 5,
+    readonly xMargin: number = 5,
+    // This data structure is abused to also store precise scroll
+    // snapshots, in which case the margins hold the vertical distance
+    // from the top of the scroller to the start of the anchor line
+    // and the horizontal scroll position.
+    readonly isSnapshot = false
+  ) {}
+
+  map(changes: ChangeDesc) {
+    return changes.empty ? this :
+      new ScrollTarget(this.range.map(changes), this.y, this.x, this.yMargin, this.xMargin, this.isSnapshot)
+  }
+}
+
+export const scrollIntoView = StateEffect.define<ScrollTarget>({map: (t, ch) => t.map(ch)})
+
 /// This is the interface plugin objects conform to.
 export interface PluginValue {
   /// Notifies the plugin of an update that happened in the view. This
@@ -104,17 +180,50 @@ export class PluginField<T> {
   /// are _not_ taken into account when predicting the vertical layout
   /// structure of the editor. Thus, things like large widgets or big
   /// replacements (i.e. code folding) should be provided through the
-  /// state-level [`decorations` facet](#view.EditorView^decorations),
-  /// not this plugin field. Specifically, replacing decorations that
-  /// cross line boundaries will break if provided through a plugin.
+  /// state-level [`decorations` facet](#view.EditorView^decorations)
+  /// or the [`layoutDecorations`](#view.PluginField^layoutDecorations)
+  /// field, not this plugin field. Specifically, replacing decorations
+  /// that cross line boundaries will break if provided through this
+  /// field.
   static decorations = PluginField.define<DecorationSet>()
 
+  /// This field can be used by plugins to provide decorations that
+  /// influence the vertical layout of the editor, such as block
+  /// widgets and replaced ranges that cover line breaks. Unlike
+  /// [`decorations`](#view.PluginField^decorations), these are taken
+  /// into account by the editor's height map and viewport
+  /// computation. Because plugins are updated after the viewport has
+  /// been computed, a change in these decorations may cause the view
+  /// to recompute its viewport and update its plugins again, in an
+  /// extra layout cycle, so decorations that don't affect the layout
+  /// should be provided through the regular field.
+  static layoutDecorations = PluginField.define<DecorationSet>()
+
   /// Plugins can provide additional scroll margins (space around the
   /// sides of the scrolling element that should be considered
   /// invisible) through this field. This can be useful when the
   /// plugin introduces elements that cover part of that element (for
   /// example a horizontally fixed gutter).
   static scrollMargins = PluginField.define<Partial<Rect> | null>()
+
+  /// Plugins can provide additional DOM attributes for the editor's
+  /// [outer element](#view.EditorView.dom) through this field. These
+  /// are combined with those provided by the [state-level
+  /// facet](#view.EditorView^editorAttributes). The attributes are
+  /// only read when the view updates, so a plugin that changes them
+  /// in response to something other than a view update should call
+  /// [`update`](#view.EditorView.update) with an empty array of
+  /// transactions.
+  static editorAttributes = PluginField.define<{[name: string]: string} | null>()
+
+  /// Like [`editorAttributes`](#view.PluginField^editorAttributes),
+  /// but for the editor's [editable element](#view.EditorView.contentDOM).
+  static contentAttributes = PluginField.define<{[name: string]: string} | null>()
+
+  /// Plugins can use this field to provide [atomic
+  /// ranges](#view.EditorView^atomicRanges), which cursor motion and
+  /// selection will treat as a single unit.
+  static atomicRanges = PluginField.define<RangeSet<any>>()
 }
 
 let nextPluginID = 0
@@ -134,7 +243,9 @@ export interface PluginSpec<V extends PluginValue> {
   /// a function that take the plugin value and return a [decoration
   /// set](#view.DecorationSet). See also the caveat about
   /// [layout-changing decorations](#view.PluginField^decorations)
-  /// from plugins.
+  /// from plugins, which should be provided through
+  /// [`layoutDecorations`](#view.PluginField^layoutDecorations)
+  /// instead.
   decorations?: (value: V) => DecorationSet
 
   /// Specify that the plugin provides [plugin
@@ -0,0 +1,89 @@
+import {Text, findClusterBreak} from "@codemirror/text"
+
+interface Segmenter {
+  segment(str: string): {containing(index: number): {index: number, segment: string} | undefined}
+}
+
+let segmenter: Segmenter | null | undefined = undefined
+
+function getSegmenter() {
+  if (segmenter === undefined) {
+    let Seg = typeof Intl != "undefined" && (Intl as any).Segmenter
+    segmenter = Seg ? new Seg(undefined, {granularity: "grapheme"}) : null
+  }
+  return segmenter
+}
+
+// Segmenting a whole (possibly very long) line on every call would
+// be expensive, so only this many characters around a position are
+// segmented.
+const SegmentWindow = 64
+
+function isLowSurrogate(code: number) {
+  return code >= 0xdc00 && code < 0xe000
+}
+
+function isRegionalIndicator(str: string, i: number) {
+  let next = str.charCodeAt(i + 1)
+  return str.charCodeAt(i) == 0xd83c && next >= 0xdde6 && next <= 0xddff
+}
+
+// Find the segment around `pos`, segmenting only a window of the
+// string when possible.
+function segmentAt(seg: Segmenter, str: string, pos: number) {
+  let from = Math.max(0, pos - SegmentWindow), to = Math.min(str.length, pos + SegmentWindow)
+  // Don't start the window in the middle of a surrogate pair or a run
+  // of regional indicators (which are paired up from its start)
+  if (from > 0 && isLowSurrogate(str.charCodeAt(from))) from--
+  while (from >= 2 && isRegionalIndicator(str, from - 2)) from -= 2
+  let segment = seg.segment(str.slice(from, to)).containing(pos - from)
+  if (!segment) return undefined
+  let start = from + segment.index, end = start + segment.segment.length
+  // A segment that touches the window's edge may have been cut off,
+  // in which case the entire string is segmented after all
+  if ((start > from || from == 0) && (end < to || to == str.length)) return {start, end}
+  segment = seg.segment(str).containing(pos)
+  return segment && {start: segment.index, end: segment.index + segment.segment.length}
+}
+
+// Find the extended grapheme cluster break after (or, when `forward`
+// is false, before) `pos` in `str`. Uses `Intl.Segmenter` when the
+// platform provides it, and falls back to the table-based
+// approximation in @codemirror/text otherwise.
+export function clusterBreak(str: string, pos: number, forward = true) {
+  let seg = getSegmenter()
+  if (!seg) return findClusterBreak(str, pos, forward)
+  if (forward ? pos >= str.length : pos <= 0) return pos
+  let cluster = segmentAt(seg, str, forward ? pos : pos - 1)
+  if (!cluster) return findClusterBreak(str, pos, forward)
+  return forward ? cluster.end : cluster.start
+}
+
+// Move a document position that falls inside a grapheme cluster to
+// the nearest cluster boundary.
+export function snapToCluster(doc: Text, pos: number) {
+  let line = doc.lineAt(pos), off = pos - line.from
+  if (off == 0 || off == line.length) return pos
+  let before = clusterBreak(line.text, off, false), after = clusterBreak(line.text, before)
+  if (after <= off) return pos
+  return line.from + (off - before <= after - off ? before : after)
+}
+
+let wordSegmenter: Segmenter | null | undefined = undefined
+
+// Scripts that are written without spaces between words, for which
+// word boundaries have to be found with a dictionary-based segmenter
+// (Thai, Lao, Myanmar, Khmer, Hiragana, Katakana, and Han).
+export const noSpaceScript = /[\u0e00-\u0eff\u1000-\u109f\u1780-\u17ff\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/
+
+// The default word segmenter, which uses `Intl.Segmenter` when
+// available.
+export function intlWordAt(text: string, pos: number): {from: number, to: number} | null {
+  if (wordSegmenter === undefined) {
+    let Seg = typeof Intl != "undefined" && (Intl as any).Segmenter
+    wordSegmenter = Seg ? new Seg(undefined, {granularity: "word"}) : null
+  }
+  if (!wordSegmenter || pos < 0 || pos >= text.length) return null
+  let word = segmentAt(wordSegmenter, text, pos)
+  return word ? {from: word.start, to: word.end} : null
+}
@@ -1,16 +1,27 @@
 export {EditorView, DOMEventMap, DOMEventHandlers} from "./editorview"
-export {Command, ViewPlugin, PluginValue, PluginSpec, PluginFieldProvider, PluginField, ViewUpdate, logException} from "./extension"
+export {Command, ViewPlugin, PluginValue, PluginSpec, PluginFieldProvider, PluginField, ViewUpdate, logException,
+        ScrollStrategy, BlockedEditType} from "./extension"
 export {Decoration, DecorationSet, WidgetType, BlockType} from "./decoration"
 export {BlockInfo} from "./heightmap"
-export {MouseSelectionStyle} from "./input"
+export {MouseSelectionStyle, defaultClickUnits} from "./input"
 export {BidiSpan, Direction} from "./bidi"
 export {KeyBinding, keymap, runScopeHandlers} from "./keymap"
-export {drawSelection} from "./draw-selection"
+export {addCursorAbove, addCursorBelow, selectNextOccurrence} from "./multi-cursor"
+export {cursorSubwordLeft, cursorSubwordRight, selectSubwordLeft, selectSubwordRight} from "./subword"
+export {drawSelection, cursorShape, CursorShape} from "./draw-selection"
+export {layer, LayerMarker, RectangleMarker} from "./layer"
+export {dropCursor} from "./dropcursor"
+export {touchSelectionHandles} from "./touch-selection"
+export {rectangularSelection, crosshairCursor} from "./rectangular-selection"
 export {highlightSpecialChars} from "./special-chars"
 export {highlightActiveLine} from "./active-line"
+export {highlightSelectionMatches} from "./selection-match"
 export {placeholder} from "./placeholder"
 export {Rect} from "./dom"
+export {PerfTrace} from "./trace"
 export {MatchDecorator} from "./matchdecorator"
+export {renderStaticHTML, renderStaticDOM, staticStyleModules} from "./static"
+export {htmlClipboard} from "./clipboard"
 export {Range} from "@codemirror/rangeset"
 
 import {HeightMap, HeightOracle, MeasuredHeights, QueryType} from "./heightmap"
@@ -150,6 +150,9 @@ function textCoords(text: Text, pos: number, side: number): Rect {
 // Also used for collapsed ranges that don't have a placeholder widget!
 export class WidgetView extends InlineView {
   dom!: HTMLElement | null
+  // The widget that drew the current DOM, when this view's widget has
+  // since been replaced.
+  prevWidget: WidgetType | null = null
 
   static create(widget: WidgetType, length: number, side: number) {
     return new (widget.customView || WidgetView)(widget, length, side)
@@ -163,9 +166,17 @@ export class WidgetView extends InlineView {
 
   sync() {
     if (!this.dom || !this.widget.updateDOM(this.dom)) {
+      if (this.dom) (this.prevWidget || this.widget).destroy(this.dom)
       this.setDOM(this.widget.toDOM(this.editorView))
       this.dom!.contentEditable = "false"
+      if (this.widget.mounted) this.editorView.mountWidget(this.widget, this.dom!)
     }
+    this.prevWidget = null
+  }
+
+  destroy() {
+    super.destroy()
+    if (this.dom) (this.prevWidget || this.widget).destroy(this.dom)
   }
 
   getSide() { return this.side }
@@ -182,6 +193,7 @@ export class WidgetView extends InlineView {
     if (other.length == this.length && other instanceof WidgetView && other.side == this.side) {
       if (this.widget.constructor == other.widget.constructor) {
         if (!this.widget.eq(other.widget)) this.markDirty(true)
+        if (this.dom && !this.prevWidget) this.prevWidget = this.widget
         this.widget = other.widget
         return true
       }
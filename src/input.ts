@@ -3,10 +3,11 @@ import {EditorView, DOMEventHandlers} from "./editorview"
 import {ContentView} from "./contentview"
 import {LineView} from "./blockview"
 import {domEventHandlers, ViewUpdate, PluginValue, clickAddsSelectionRange, dragMovesSelection as dragBehavior,
-        logException, mouseSelectionStyle, editable} from "./extension"
+        logException, mouseSelectionStyle, clickSelectionUnit, clipboardHTML, editable, readOnly, blockedEditListener,
+        BlockedEditType} from "./extension"
 import browser from "./browser"
-import {groupAt} from "./cursor"
-import {getSelection, focusPreventScroll, Rect} from "./dom"
+import {groupAt, skipAtomsForSelection} from "./cursor"
+import {getSelection, focusPreventScroll, Rect, visibleClientRect, scrollByWithAncestors} from "./dom"
 
 // This will also be where dragging info and such goes
 export class InputState {
@@ -194,6 +195,9 @@ class MouseSelection {
   dragMove: boolean
   extend: boolean
   multiple: boolean
+  lastEvent: MouseEvent
+  scrollSpeed = {x: 0, y: 0}
+  scrolling = -1
 
   constructor(private inputState: InputState, private view: EditorView,
               private startEvent: MouseEvent,
@@ -202,6 +206,7 @@ class MouseSelection {
     doc.addEventListener("mousemove", this.move = this.move.bind(this))
     doc.addEventListener("mouseup", this.up = this.up.bind(this))
 
+    this.lastEvent = startEvent
     this.extend = startEvent.shiftKey
     this.multiple = view.state.facet(EditorState.allowMultipleSelections) && addsSelectionRange(view, startEvent)
     this.dragMove = dragMovesSelection(view, startEvent)
@@ -215,9 +220,37 @@ class MouseSelection {
   }
 
   move(event: MouseEvent) {
+    // When the button is released outside of the window, no mouseup
+    // event is seen, so this also stops any drag scrolling
     if (event.buttons == 0) return this.destroy()
     if (this.dragging !== false) return
-    this.select(event)
+    this.select(this.lastEvent = event)
+
+    // When the mouse is outside the visible part of the editor,
+    // scroll at a speed proportional to its distance from it
+    let sx = 0, sy = 0, rect = visibleClientRect(this.view.scrollDOM)
+    if (event.clientX <= rect.left) sx = -dragScrollSpeed(rect.left - event.clientX)
+    else if (event.clientX >= rect.right) sx = dragScrollSpeed(event.clientX - rect.right)
+    if (event.clientY <= rect.top) sy = -dragScrollSpeed(rect.top - event.clientY)
+    else if (event.clientY >= rect.bottom) sy = dragScrollSpeed(event.clientY - rect.bottom)
+    this.setScrollSpeed(sx, sy)
+  }
+
+  setScrollSpeed(sx: number, sy: number) {
+    this.scrollSpeed = {x: sx, y: sy}
+    if (sx || sy) {
+      if (this.scrolling < 0) this.scrolling = setInterval(() => this.scroll(), 50)
+    } else if (this.scrolling > -1) {
+      clearInterval(this.scrolling)
+      this.scrolling = -1
+    }
+  }
+
+  // Scroll, and extend the selection to the position now under the
+  // (possibly motionless) mouse
+  scroll() {
+    scrollByWithAncestors(this.view.scrollDOM, this.scrollSpeed.x, this.scrollSpeed.y)
+    this.select(this.lastEvent)
   }
 
   up(event: MouseEvent) {
@@ -230,11 +263,12 @@ class MouseSelection {
     let doc = this.view.contentDOM.ownerDocument!
     doc.removeEventListener("mousemove", this.move)
     doc.removeEventListener("mouseup", this.up)
+    this.setScrollSpeed(0, 0)
     this.inputState.mouseSelection = null
   }
 
   select(event: MouseEvent) {
-    let selection = this.style.get(event, this.extend, this.multiple)
+    let selection = skipAtomsForSelection(this.view, this.style.get(event, this.extend, this.multiple))
     if (!selection.eq(this.view.state.selection) || selection.main.assoc != this.view.state.selection.main.assoc)
       this.view.dispatch({
         selection,
@@ -249,6 +283,10 @@ class MouseSelection {
   }
 }
 
+function dragScrollSpeed(dist: number) {
+  return Math.round(Math.max(0, dist) * 0.7 + 8)
+}
+
 function addsSelectionRange(view: EditorView, event: MouseEvent) {
   let facet = view.state.facet(clickAddsSelectionRange)
   return facet.length ? facet[0](event) : browser.mac ? event.metaKey : event.ctrlKey
@@ -292,6 +330,17 @@ const handlers: {[key: string]: (view: EditorView, event: any) => void} = Object
 const brokenClipboardAPI = (browser.ie && browser.ie_version < 15) ||
   (browser.ios && browser.webkit_version < 604)
 
+// Returns true, after notifying any listeners, when the view is
+// read-only and the given kind of edit should not be performed.
+export function editBlocked(view: EditorView, type: BlockedEditType) {
+  if (!view.state.facet(readOnly)) return false
+  for (let listener of view.state.facet(blockedEditListener)) {
+    try { listener(view, type) }
+    catch(e) { logException(view.state, e) }
+  }
+  return true
+}
+
 function capturePaste(view: EditorView) {
   let parent = view.dom.parentNode
   if (!parent) return
@@ -364,12 +413,15 @@ handlers.mousedown = (view, event: MouseEvent) => {
   }
 }
 
-function rangeForClick(view: EditorView, pos: number, bias: -1 | 1, type: number): SelectionRange {
-  if (type == 1) { // Single click
-    return EditorSelection.cursor(pos, bias)
-  } else if (type == 2) { // Double click
-    return groupAt(view.state, pos, bias)
-  } else { // Triple click
+/// The units used by the default mouse selection for single (a
+/// cursor), double (a word), and triple (a line) clicks. Can be used
+/// to build on or restore the default behavior in a
+/// [`clickSelectionUnit`](#view.EditorView^clickSelectionUnit)
+/// configuration.
+export const defaultClickUnits: {readonly [clickCount: number]: (view: EditorView, pos: number, bias: -1 | 1) => SelectionRange} = {
+  1: (_view, pos, bias) => EditorSelection.cursor(pos, bias),
+  2: (view, pos, bias) => groupAt(view.state, pos, bias),
+  3: (view, pos) => {
     let visual = LineView.find(view.docView, pos), line = view.state.doc.lineAt(visual ? visual.posAtEnd : pos)
     let from = visual ? visual.posAtStart : line.from, to = visual ? visual.posAtEnd : line.to
     if (to < view.state.doc.length && to == line.to) to++
@@ -377,6 +429,17 @@ function rangeForClick(view: EditorView, pos: number, bias: -1 | 1, type: number
   }
 }
 
+// Use the unit configured for the highest click count that doesn't
+// exceed `type`.
+function rangeForClick(view: EditorView, pos: number, bias: -1 | 1, type: number): SelectionRange {
+  let configured = view.state.facet(clickSelectionUnit), unit = null, unitCount = 0
+  for (let units of [defaultClickUnits, configured]) for (let prop in units) {
+    let count = +prop
+    if (count <= type && count >= unitCount) { unit = units[count]; unitCount = count }
+  }
+  return unit ? unit(view, pos, bias) : EditorSelection.cursor(pos, bias)
+}
+
 let insideY = (y: number, rect: Rect) => y >= rect.top && y <= rect.bottom
 let inside = (x: number, y: number, rect: Rect) => insideY(y, rect) && x >= rect.left && x <= rect.right
 
@@ -416,13 +479,12 @@ function getClickType(event: MouseEvent) {
   lastMouseDown = event
   lastMouseDownTime = Date.now()
   return lastMouseDownCount = !last || (lastTime > Date.now() - 400 && Math.abs(last.clientX - event.clientX) < 2 &&
-                                        Math.abs(last.clientY - event.clientY) < 2) ? (lastMouseDownCount + 1) % 3 : 1
+                                        Math.abs(last.clientY - event.clientY) < 2) ? lastMouseDownCount + 1 : 1
 }
 
 function basicMouseSelection(view: EditorView, event: MouseEvent) {
   let start = queryPos(view, event), type = getClickType(event)
   let startSel = view.state.selection
-  let last = start, lastEvent = event
   return {
     update(update) {
       if (update.changes) {
@@ -431,9 +493,9 @@ function basicMouseSelection(view: EditorView, event: MouseEvent) {
       }
     },
     get(event, extend, multiple) {
-      let cur
-      if (event.clientX == lastEvent.clientX && event.clientY == lastEvent.clientY) cur = last
-      else { cur = last = queryPos(view, event); lastEvent = event }
+      // Always query the position, since the content may have
+      // scrolled under a motionless pointer
+      let cur = queryPos(view, event)
       if (!cur || !start) return startSel
       let range = rangeForClick(view, cur.pos, cur.bias, type)
       if (start.pos != cur.pos && !extend) {
@@ -470,6 +532,7 @@ handlers.drop = (view, event: DragEvent) => {
   if (dropPos == null || !text) return
 
   event.preventDefault()
+  if (editBlocked(view, "drop")) return
 
   let {mouseSelection} = view.inputState
   let del = mouseSelection && mouseSelection.dragging && mouseSelection.dragMove ?
@@ -487,6 +550,10 @@ handlers.drop = (view, event: DragEvent) => {
 
 handlers.paste = (view: EditorView, event: ClipboardEvent) => {
   if (!view.state.facet(editable)) return
+  if (editBlocked(view, "paste")) {
+    event.preventDefault()
+    return
+  }
   view.observer.flush()
   let data = brokenClipboardAPI ? null : event.clipboardData
   let text = data && data.getData("text/plain")
@@ -550,10 +617,18 @@ handlers.copy = handlers.cut = (view, event: ClipboardEvent) => {
     event.preventDefault()
     data.clearData()
     data.setData("text/plain", text)
+    for (let html of view.state.facet(clipboardHTML)) {
+      try {
+        let value = html(view, ranges)
+        if (value != null) { data.setData("text/html", value); break }
+      } catch (e) {
+        logException(view.state, e)
+      }
+    }
   } else {
     captureCopy(view, text)
   }
-  if (event.type == "cut" && view.state.facet(editable))
+  if (event.type == "cut" && view.state.facet(editable) && !editBlocked(view, "cut"))
     view.dispatch({
       changes: ranges,
       scrollIntoView: true,
@@ -0,0 +1,242 @@
+import {Extension, EditorSelection, SelectionRange} from "@codemirror/state"
+import {ViewPlugin, ViewUpdate, MeasureRequest} from "./extension"
+import {EditorView} from "./editorview"
+import {Direction} from "./bidi"
+
+/// Markers shown in a [layer](#view.layer) must conform to this
+/// interface. They are created in a measuring phase, and have to
+/// contain all their positioning information, so that they can be
+/// drawn without further DOM layout reading.
+export interface LayerMarker {
+  /// Compare this marker to a marker of the same type. Used to avoid
+  /// unnecessary redraws.
+  eq(other: LayerMarker): boolean
+  /// Draw the marker to the DOM.
+  draw(): HTMLElement
+  /// Update an existing marker of this type to this marker. Return
+  /// false to indicate that the element couldn't be updated, in
+  /// which case a new one is drawn.
+  update?(dom: HTMLElement, oldMarker: LayerMarker): boolean
+}
+
+/// Implementation of [`LayerMarker`](#view.LayerMarker) that creates
+/// a rectangle at a given set of coordinates.
+export class RectangleMarker implements LayerMarker {
+  /// Create a marker with the given class and dimensions. If `width`
+  /// is null, the DOM element will get no width style.
+  constructor(private className: string,
+              readonly left: number, readonly top: number,
+              readonly width: number | null, readonly height: number) {}
+
+  draw() {
+    let elt = document.createElement("div")
+    elt.className = this.className
+    this.adjust(elt)
+    return elt
+  }
+
+  update(elt: HTMLElement, prev: RectangleMarker) {
+    if (prev.className != this.className) return false
+    this.adjust(elt)
+    return true
+  }
+
+  private adjust(elt: HTMLElement) {
+    elt.style.left = this.left + "px"
+    elt.style.top = this.top + "px"
+    if (this.width != null) elt.style.width = this.width + "px"
+    elt.style.height = this.height + "px"
+  }
+
+  eq(p: RectangleMarker) {
+    return this.left == p.left && this.top == p.top && this.width == p.width && this.height == p.height &&
+      this.className == p.className
+  }
+
+  /// Create a set of rectangles for the given selection range,
+  /// assigning them the given class. Will create a single rectangle
+  /// for empty ranges, and a set of selection-style rectangles
+  /// covering the range's content (in a bidi-aware way) for
+  /// non-empty ones.
+  static forRange(view: EditorView, className: string, range: SelectionRange): readonly RectangleMarker[] {
+    if (range.empty) {
+      let pos = view.coordsAtPos(range.head, range.assoc || 1)
+      if (!pos) return []
+      let base = getBase(view)
+      return [new RectangleMarker(className, pos.left - base.left, pos.top - base.top, null, pos.bottom - pos.top)]
+    } else {
+      return rectanglesForRange(view, className, range)
+    }
+  }
+}
+
+function getBase(view: EditorView) {
+  let rect = view.scrollDOM.getBoundingClientRect()
+  let left = view.textDirection == Direction.LTR ? rect.left : rect.right - view.scrollDOM.clientWidth
+  return {left: left - view.scrollDOM.scrollLeft, top: rect.top - view.scrollDOM.scrollTop}
+}
+
+function wrappedLine(view: EditorView, pos: number, inside: {from: number, to: number}) {
+  let range = EditorSelection.cursor(pos)
+  return {from: Math.max(inside.from, view.moveToLineBoundary(range, false, true).from),
+          to: Math.min(inside.to, view.moveToLineBoundary(range, true, true).from)}
+}
+
+function rectanglesForRange(view: EditorView, className: string, range: SelectionRange): RectangleMarker[] {
+  if (range.to <= view.viewport.from || range.from >= view.viewport.to) return []
+  let from = Math.max(range.from, view.viewport.from), to = Math.min(range.to, view.viewport.to)
+
+  let ltr = view.textDirection == Direction.LTR
+  let content = view.contentDOM, contentRect = content.getBoundingClientRect(), base = getBase(view)
+  let lineStyle = window.getComputedStyle(content.firstChild as HTMLElement)
+  let leftSide = contentRect.left + parseInt(lineStyle.paddingLeft)
+  let rightSide = contentRect.right - parseInt(lineStyle.paddingRight)
+
+  let visualStart: {from: number, to: number} = view.visualLineAt(from)
+  let visualEnd: {from: number, to: number} = view.visualLineAt(to)
+  if (view.lineWrapping) {
+    visualStart = wrappedLine(view, from, visualStart)
+    visualEnd = wrappedLine(view, to, visualEnd)
+  }
+  if (visualStart.from == visualEnd.from) {
+    return pieces(drawForLine(range.from, range.to, visualStart))
+  } else {
+    let top = drawForLine(range.from, null, visualStart)
+    let bottom = drawForLine(null, range.to, visualEnd)
+    let between = []
+    if (visualStart.to < visualEnd.from - 1)
+      between.push(piece(leftSide, top.bottom, rightSide, bottom.top))
+    else if (top.bottom < bottom.top && bottom.top - top.bottom < 4)
+      top.bottom = bottom.top = (top.bottom + bottom.top) / 2
+    return pieces(top).concat(between).concat(pieces(bottom))
+  }
+
+  function piece(left: number, top: number, right: number, bottom: number) {
+    return new RectangleMarker(className, left - base.left, top - base.top, right - left, bottom - top)
+  }
+  function pieces({top, bottom, horizontal}: {top: number, bottom: number, horizontal: number[]}) {
+    let pieces = []
+    for (let i = 0; i < horizontal.length; i += 2)
+      pieces.push(piece(horizontal[i], top, horizontal[i + 1], bottom))
+    return pieces
+  }
+
+  // Gets passed from/to in line-local positions
+  function drawForLine(from: null | number, to: null | number, line: {from: number, to: number}) {
+    let top = 1e9, bottom = -1e9, horizontal: number[] = []
+    function addSpan(from: number, fromOpen: boolean, to: number, toOpen: boolean, dir: Direction) {
+      let fromCoords = view.coordsAtPos(from, from == line.to ? -1 : 1)!
+      let toCoords = view.coordsAtPos(to, to == line.from ? 1 : -1)!
+      top = Math.min(fromCoords.top, toCoords.top, top)
+      bottom = Math.max(fromCoords.bottom, toCoords.bottom, bottom)
+      if (dir == Direction.LTR)
+        horizontal.push(ltr && fromOpen ? leftSide : fromCoords.left,
+                        ltr && toOpen ? rightSide : toCoords.right)
+      else
+        horizontal.push(!ltr && toOpen ? leftSide : toCoords.left,
+                        !ltr && fromOpen ? rightSide : fromCoords.right)
+    }
+
+    let start = from ?? line.from, end = to ?? line.to
+    // Split the range by visible range and document line
+    for (let r of view.visibleRanges) if (r.to > start && r.from < end) {
+      for (let pos = Math.max(r.from, start), endPos = Math.min(r.to, end);;) {
+        let docLine = view.state.doc.lineAt(pos)
+        for (let span of view.bidiSpans(docLine)) {
+          let spanFrom = span.from + docLine.from, spanTo = span.to + docLine.from
+          if (spanFrom >= endPos) break
+          if (spanTo > pos)
+            addSpan(Math.max(spanFrom, pos), from == null && spanFrom <= start,
+                    Math.min(spanTo, endPos), to == null && spanTo >= end, span.dir)
+        }
+        pos = docLine.to + 1
+        if (pos >= endPos) break
+      }
+    }
+    if (horizontal.length == 0) addSpan(start, from == null, end, to == null, view.textDirection)
+
+    return {top, bottom, horizontal}
+  }
+}
+
+interface LayerConfig {
+  /// Determines whether this layer is shown above or below the text.
+  above: boolean
+  /// When given, this class is added to the DOM element that will
+  /// wrap the markers.
+  class?: string
+  /// Called on every view update. Return true to indicate that the
+  /// layer's markers must be recomputed. Markers are always
+  /// recomputed when the editor's geometry or viewport changes.
+  update(update: ViewUpdate, layer: HTMLElement): boolean
+  /// Build a set of markers for this layer, and measure their
+  /// dimensions. This is called in the measuring phase of a [layout
+  /// cycle](#view.EditorView.requestMeasure), so it can read DOM
+  /// layout, but should not change the DOM.
+  markers(view: EditorView): readonly LayerMarker[]
+  /// If given, this is called when the layer is created.
+  mount?(layer: HTMLElement, view: EditorView): void
+  /// If given, called when the layer is removed from the editor or
+  /// the entire editor is destroyed.
+  destroy?(layer: HTMLElement, view: EditorView): void
+}
+
+class LayerView {
+  drawn: readonly LayerMarker[] = []
+  elements: HTMLElement[] = []
+  dom: HTMLElement
+  measureReq: MeasureRequest<readonly LayerMarker[]>
+
+  constructor(readonly view: EditorView, readonly layer: LayerConfig) {
+    this.measureReq = {read: this.measure.bind(this), write: this.draw.bind(this)}
+    this.dom = view.scrollDOM.appendChild(document.createElement("div"))
+    this.dom.className = "cm-layer " + (layer.above ? "cm-layer-above" : "cm-layer-below") +
+      (layer.class ? " " + layer.class : "")
+    this.dom.setAttribute("aria-hidden", "true")
+    if (layer.mount) layer.mount(this.dom, view)
+    view.requestMeasure(this.measureReq)
+  }
+
+  update(update: ViewUpdate) {
+    if (this.layer.update(update, this.dom) || update.geometryChanged || update.viewportChanged)
+      this.view.requestMeasure(this.measureReq)
+  }
+
+  measure(): readonly LayerMarker[] {
+    return this.layer.markers(this.view)
+  }
+
+  draw(markers: readonly LayerMarker[]) {
+    if (markers.length == this.drawn.length && markers.every((p, i) => p.eq(this.drawn[i]))) return
+    // Only touch the elements drawn for markers, since the layer's
+    // `mount` function may have added its own content to the wrapper
+    let oldI = 0, elements: HTMLElement[] = []
+    for (let marker of markers) {
+      let old = oldI < this.elements.length ? this.elements[oldI] : null
+      if (marker.update && old && marker.constructor == this.drawn[oldI].constructor &&
+          marker.update(old, this.drawn[oldI])) {
+        elements.push(old)
+        oldI++
+      } else {
+        elements.push(this.dom.insertBefore(marker.draw(), old))
+      }
+    }
+    for (let i = oldI; i < this.elements.length; i++) this.elements[i].remove()
+    this.drawn = markers
+    this.elements = elements
+  }
+
+  destroy() {
+    if (this.layer.destroy) this.layer.destroy(this.dom, this.view)
+    this.dom.remove()
+  }
+}
+
+/// Define a layer, an element positioned above or below the
+/// editor's text, in which absolutely positioned markers (such as
+/// selection backgrounds or cursors) are drawn. The view takes care
+/// of scheduling the measuring of the markers, comparing them to the
+/// ones that are currently drawn, and updating the DOM.
+export function layer(config: LayerConfig): Extension {
+  return ViewPlugin.define(v => new LayerView(v, config))
+}
@@ -0,0 +1,95 @@
+import {EditorSelection, SelectionRange, Transaction} from "@codemirror/state"
+import {EditorView} from "./editorview"
+import {Command} from "./extension"
+import {groupAt} from "./cursor"
+import {isWord, isWholeWord} from "./selection-match"
+
+// Whether position `b` lies on the same visual line (the same row of
+// a wrapped line) as position `a`.
+function sameVisualLine(view: EditorView, a: number, b: number) {
+  let line = view.state.doc.lineAt(a)
+  if (b < line.from || b > line.to) return false
+  let coordsA = view.coordsAtPos(a), coordsB = view.coordsAtPos(b)
+  // Without layout information, only whole lines can be told apart
+  if (!coordsA || !coordsB) return true
+  return !(coordsB.bottom <= coordsA.top || coordsB.top >= coordsA.bottom)
+}
+
+function addCursorVertically(view: EditorView, forward: boolean) {
+  let sel = view.state.selection, ranges = sel.ranges.slice()
+  for (let range of sel.ranges) {
+    let next = view.moveVertically(range, forward)
+    if (next.head == range.head || ranges.some(r => r.head == next.head) ||
+        sameVisualLine(view, range.head, next.head)) continue
+    ranges.push(next)
+  }
+  if (ranges.length == sel.ranges.length) return false
+  view.dispatch({
+    selection: EditorSelection.create(ranges, ranges.length - 1),
+    scrollIntoView: true,
+    annotations: Transaction.userEvent.of("keyboardselection")
+  })
+  return true
+}
+
+/// Add a cursor one visual line above each selection range's head.
+/// The new cursors keep the [goal
+/// column](#state.SelectionRange.goalColumn) of the range they were
+/// created from, so that repeatedly adding cursors through short
+/// lines keeps them aligned. The last added cursor becomes the main
+/// selection.
+export const addCursorAbove: Command = view => addCursorVertically(view, false)
+
+/// Add a cursor one visual line below each selection range's head.
+/// See [`addCursorAbove`](#view.addCursorAbove).
+export const addCursorBelow: Command = view => addCursorVertically(view, true)
+
+function findNextOccurrence(view: EditorView, query: string, wholeWord: boolean): SelectionRange | null {
+  let {state} = view, {ranges} = state.selection, last = ranges[ranges.length - 1]
+  let search = (from: number, to: number) => {
+    let text = state.sliceDoc(from, to)
+    for (let i = text.indexOf(query); i > -1; i = text.indexOf(query, i + 1)) {
+      let start = from + i, end = start + query.length
+      if (ranges.some(r => r.from == start) || wholeWord && !isWholeWord(state, start, end)) continue
+      return EditorSelection.range(start, end)
+    }
+    return null
+  }
+  return search(last.to, state.doc.length) || search(0, last.from)
+}
+
+/// When some of the selection ranges are empty, expand those that
+/// touch a word to cover that word. Otherwise, when all ranges cover
+/// the same text, find the next occurrence of that text after the
+/// last range (wrapping around to the start of the document), add it
+/// as the new main selection range, and scroll it into view. If the
+/// selection covers a whole word, only whole-word occurrences are
+/// selected.
+export const selectNextOccurrence: Command = view => {
+  let {state} = view, sel = state.selection
+  if (sel.ranges.some(r => r.empty)) {
+    let expanded = sel.ranges.map(r => {
+      if (!r.empty) return r
+      let word = groupAt(state, r.head)
+      return word.empty || !isWord(state, word.from, word.to) ? r : word
+    })
+    if (expanded.every((r, i) => r == sel.ranges[i])) return false
+    view.dispatch({
+      selection: EditorSelection.create(expanded, sel.mainIndex),
+      annotations: Transaction.userEvent.of("keyboardselection")
+    })
+    return true
+  }
+  let query = state.sliceDoc(sel.main.from, sel.main.to)
+  if (sel.ranges.some(r => state.sliceDoc(r.from, r.to) != query)) return false
+  let word = groupAt(state, sel.main.from)
+  let wholeWord = word.from == sel.main.from && word.to == sel.main.to && isWord(state, word.from, word.to)
+  let range = findNextOccurrence(view, query, wholeWord)
+  if (!range) return false
+  view.dispatch({
+    selection: sel.addRange(range),
+    scrollIntoView: true,
+    annotations: Transaction.userEvent.of("keyboardselection")
+  })
+  return true
+}
@@ -0,0 +1,153 @@
+import {Extension, EditorSelection, EditorState} from "@codemirror/state"
+import {countColumn, findColumn} from "@codemirror/text"
+import {EditorView} from "./editorview"
+import {MouseSelectionStyle} from "./input"
+import {ViewUpdate, ViewPlugin, PluginField} from "./extension"
+
+type Pos = {line: number, col: number, off: number}
+
+// Don't compute precise column positions for line offsets above this
+// (since it could get expensive). Assume offset==column for them.
+const MaxOff = 2000
+
+function rectangleFor(state: EditorState, a: Pos, b: Pos) {
+  let startLine = Math.min(a.line, b.line), endLine = Math.max(a.line, b.line)
+  let ranges = []
+  if (a.off > MaxOff || b.off > MaxOff || a.col < 0 || b.col < 0) {
+    let startOff = Math.min(a.off, b.off), endOff = Math.max(a.off, b.off)
+    for (let i = startLine; i <= endLine; i++) {
+      let line = state.doc.line(i)
+      if (line.length >= startOff)
+        ranges.push(EditorSelection.range(line.from + startOff, line.from + Math.min(endOff, line.length)))
+    }
+  } else {
+    let startCol = Math.min(a.col, b.col), endCol = Math.max(a.col, b.col)
+    for (let i = startLine; i <= endLine; i++) {
+      let line = state.doc.line(i)
+      // Lines that end before the rectangle starts are skipped
+      if (countColumn(line.text, 0, state.tabSize) < startCol) continue
+      let start = findColumn(line.text, startCol, state.tabSize), end = findColumn(line.text, endCol, state.tabSize)
+      ranges.push(EditorSelection.range(line.from + start, line.from + end))
+    }
+  }
+  return ranges
+}
+
+// Compute the column for a position past the end of a line, based on
+// the horizontal pixel position.
+function absoluteColumn(view: EditorView, x: number) {
+  let ref = view.coordsAtPos(view.viewport.from)
+  return ref ? Math.round(Math.abs((ref.left - x) / view.defaultCharacterWidth)) : -1
+}
+
+function getPos(view: EditorView, event: MouseEvent): Pos | null {
+  let offset = view.posAtCoords({x: event.clientX, y: event.clientY})
+  if (offset == null) return null
+  let line = view.state.doc.lineAt(offset), off = offset - line.from
+  let col = off > MaxOff ? -1
+    : off == line.length ? absoluteColumn(view, event.clientX)
+    : countColumn(line.text.slice(0, off), 0, view.state.tabSize)
+  return {line: line.number, col, off}
+}
+
+function rectangleSelectionStyle(view: EditorView, event: MouseEvent): MouseSelectionStyle | null {
+  let start = getPos(view, event), startSel = view.state.selection
+  if (!start) return null
+  return {
+    update(update: ViewUpdate) {
+      if (update.docChanged) {
+        let newStart = update.changes.mapPos(update.startState.doc.line(start!.line).from)
+        let newLine = update.state.doc.lineAt(newStart)
+        start = {line: newLine.number, col: start!.col, off: Math.min(start!.off, newLine.length)}
+        startSel = startSel.map(update.changes)
+      }
+    },
+    get(event: MouseEvent, _extend: boolean, multiple: boolean) {
+      let cur = getPos(view, event)
+      if (!cur) return startSel
+      let ranges = rectangleFor(view.state, start!, cur)
+      if (!ranges.length) return startSel
+      if (multiple) return EditorSelection.create(ranges.concat(startSel.ranges))
+      else return EditorSelection.create(ranges)
+    }
+  }
+}
+
+/// Create an extension that enables rectangular selections. By
+/// default, it will react to left mouse drag with the Alt key held
+/// down. When such a selection occurs, the text within the rectangle
+/// that was dragged over will be selected, as one selection
+/// [range](#state.SelectionRange) per line. Columns are computed with
+/// tab expansion taken into account, and lines that end before the
+/// start of the rectangle are left out of the selection.
+export function rectangularSelection(options?: {
+  /// A custom predicate function, which takes a `mousedown` event and
+  /// returns true if it should be used for rectangular selection.
+  eventFilter?: (event: MouseEvent) => boolean
+}): Extension {
+  let filter = options?.eventFilter || (e => e.altKey && e.button == 0)
+  return EditorView.mouseSelectionStyle.of((view, event) => filter(event) ? rectangleSelectionStyle(view, event) : null)
+}
+
+const keys: {[key: string]: [number, (event: KeyboardEvent | MouseEvent) => boolean]} = {
+  Alt: [18, e => e.altKey],
+  Control: [17, e => e.ctrlKey],
+  Shift: [16, e => e.shiftKey],
+  Meta: [91, e => e.metaKey]
+}
+
+/// Returns an extension that, while the given modifier key (defaults
+/// to Alt) is held down, changes the mouse cursor shown over the
+/// editor content (to a crosshair by default) and adds a class
+/// (`cm-crosshair` by default) to the editor's outer element. This
+/// can be used to hint that a click or drag will behave differently,
+/// for example when paired with
+/// [`rectangularSelection`](#view.rectangularSelection), or with
+/// `key: "Control"` to preview [adding a selection
+/// range](#view.EditorView^clickAddsSelectionRange).
+export function crosshairCursor(options: {
+  /// The modifier key to track.
+  key?: "Alt" | "Control" | "Shift" | "Meta",
+  /// The CSS cursor to show while the key is held. Defaults to
+  /// `"crosshair"`.
+  cursor?: string,
+  /// The class to add to the editor while the key is held.
+  class?: string
+} = {}): Extension {
+  let [code, getter] = keys[options.key || "Alt"]
+  let contentAttrs = {style: "cursor: " + (options.cursor || "crosshair")}
+  let editorAttrs = {class: options.class || "cm-crosshair"}
+  return ViewPlugin.fromClass(class {
+    isDown = false
+
+    constructor(readonly view: EditorView) {}
+
+    update(update: ViewUpdate) {
+      // Key releases aren't seen when the editor doesn't have focus
+      if (update.focusChanged && !update.view.hasFocus) this.isDown = false
+    }
+
+    set(isDown: boolean) {
+      if (this.isDown != isDown) {
+        this.isDown = isDown
+        this.view.update([])
+      }
+    }
+  }, {
+    eventHandlers: {
+      keydown(e) {
+        this.set(e.keyCode == code || getter(e))
+      },
+      keyup(e) {
+        if (e.keyCode == code || !getter(e)) this.set(false)
+      },
+      mousemove(e) {
+        this.set(getter(e))
+      }
+    },
+    provide: [
+      PluginField.contentAttributes.from(plugin => plugin.isDown ? contentAttrs : null),
+      PluginField.editorAttributes.from(plugin => plugin.isDown ? editorAttrs : null)
+    ]
+  })
+}
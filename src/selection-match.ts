@@ -0,0 +1,117 @@
+import {EditorState, Extension, Facet, combineConfig, CharCategory} from "@codemirror/state"
+import {EditorView} from "./editorview"
+import {ViewPlugin, ViewUpdate} from "./extension"
+import {Decoration, DecorationSet} from "./decoration"
+import {groupAt} from "./cursor"
+
+type HighlightOptions = {
+  /// Determines whether, when nothing is selected, the word around
+  /// the cursor is matched instead. Defaults to true.
+  highlightWordAroundCursor?: boolean
+  /// The minimum length of the selection (or word) before it is
+  /// highlighted. Defaults to 1.
+  minSelectionLength?: number
+  /// The amount of matches (in the viewport) at which to disable
+  /// highlighting. Defaults to 100.
+  maxMatches?: number
+  /// The maximum length of the selection (or word) for which matches
+  /// are highlighted. Defaults to 200.
+  maxQueryLength?: number
+  /// Whether to only highlight whole words when the selection
+  /// consists of word characters. Defaults to false. (Matches of the
+  /// word around the cursor are always whole-word.)
+  wholeWords?: boolean
+}
+
+const highlightConfig = Facet.define<HighlightOptions, Required<HighlightOptions>>({
+  combine(options) {
+    return combineConfig(options, {
+      highlightWordAroundCursor: true,
+      minSelectionLength: 1,
+      maxMatches: 100,
+      maxQueryLength: 200,
+      wholeWords: false
+    }, {
+      highlightWordAroundCursor: (a, b) => a || b,
+      minSelectionLength: Math.min,
+      maxMatches: Math.min,
+      maxQueryLength: Math.min,
+      wholeWords: (a, b) => a || b
+    })
+  }
+})
+
+/// Mark all visible occurrences of the selected text with the
+/// `cm-selectionMatch` class. When the selection is empty, the word
+/// around the cursor is matched instead. The occurrence that is
+/// itself (part of) the main selection gets the
+/// `cm-selectionMatch-main` class instead. Nothing is highlighted
+/// when there are multiple selection ranges.
+export function highlightSelectionMatches(options?: HighlightOptions): Extension {
+  let ext: Extension[] = [matchHighlighter]
+  if (options) ext.push(highlightConfig.of(options))
+  return ext
+}
+
+const matchDeco = Decoration.mark({class: "cm-selectionMatch"})
+const mainMatchDeco = Decoration.mark({class: "cm-selectionMatch-main"})
+
+// Whether the range from-to is not directly adjacent to other word
+// characters.
+export function isWholeWord(state: EditorState, from: number, to: number) {
+  let categorize = state.charCategorizer(from)
+  return (from == 0 || categorize(state.sliceDoc(from - 1, from)) != CharCategory.Word) &&
+    (to == state.doc.length || categorize(state.sliceDoc(to, to + 1)) != CharCategory.Word)
+}
+
+export function isWord(state: EditorState, from: number, to: number) {
+  return state.charCategorizer(from)(state.sliceDoc(from, to)) == CharCategory.Word
+}
+
+const matchHighlighter = ViewPlugin.fromClass(class {
+  decorations: DecorationSet
+
+  constructor(view: EditorView) {
+    this.decorations = this.getDeco(view)
+  }
+
+  update(update: ViewUpdate) {
+    if (update.selectionSet || update.docChanged || update.viewportChanged ||
+        update.startState.facet(highlightConfig) != update.state.facet(highlightConfig))
+      this.decorations = this.getDeco(update.view)
+  }
+
+  getDeco(view: EditorView) {
+    let conf = view.state.facet(highlightConfig)
+    let {state} = view, sel = state.selection
+    if (sel.ranges.length > 1) return Decoration.none
+    let range = sel.main, query, wholeWord = false
+    if (range.empty) {
+      if (!conf.highlightWordAroundCursor) return Decoration.none
+      let word = groupAt(state, range.head)
+      if (word.empty || !isWord(state, word.from, word.to)) return Decoration.none
+      range = word
+      query = state.sliceDoc(range.from, range.to)
+      wholeWord = true
+    } else {
+      query = state.sliceDoc(range.from, range.to)
+      if (conf.wholeWords && isWord(state, range.from, range.to)) wholeWord = true
+      else query = query.trim()
+    }
+    if (query.length < Math.max(1, conf.minSelectionLength) || query.length > conf.maxQueryLength) return Decoration.none
+
+    let deco = []
+    for (let part of view.visibleRanges) {
+      let text = state.sliceDoc(part.from, part.to)
+      for (let i = text.indexOf(query); i > -1; i = text.indexOf(query, i + query.length)) {
+        let from = part.from + i, to = from + query.length
+        if (wholeWord && !isWholeWord(state, from, to)) continue
+        if (deco.length == conf.maxMatches) return Decoration.none
+        deco.push((from >= range.from && to <= range.to ? mainMatchDeco : matchDeco).range(from, to))
+      }
+    }
+    return Decoration.set(deco)
+  }
+}, {
+  decorations: v => v.decorations
+})
@@ -0,0 +1,265 @@
+import {EditorState} from "@codemirror/state"
+import {RangeSet, SpanIterator} from "@codemirror/rangeset"
+import {StyleModule} from "style-mod"
+import {Decoration, DecorationSet, PointDecoration, LineDecoration, MarkDecoration, BlockType, WidgetType} from "./decoration"
+import {decorations, editorAttributes, contentAttributes, styleModule} from "./extension"
+import {theme, darkTheme, baseThemeID, baseLightID, baseDarkID, baseTheme} from "./theme"
+import {Attrs, combineAttrs} from "./attributes"
+import {MarkOrder} from "./buildview"
+
+// Statically rendered content is first built into this light-weight
+// tree, which mirrors the structure that ContentBuilder creates, and
+// then either serialized to a string or turned into DOM nodes.
+
+type StaticInline = string | StaticMark | StaticWidget
+
+class StaticMark {
+  constructor(readonly mark: MarkDecoration, readonly children: StaticInline[]) {}
+}
+
+class StaticWidget {
+  constructor(readonly widget: WidgetType | null, readonly tag: string) {}
+}
+
+class StaticLine {
+  children: StaticInline[] = []
+  attrs: Attrs | null = null
+  breakAfter = 0
+}
+
+class StaticBlockWidget {
+  breakAfter = 0
+  constructor(readonly widget: WidgetType | null, readonly type: BlockType) {}
+}
+
+class StaticBuilder implements SpanIterator<Decoration> {
+  content: (StaticLine | StaticBlockWidget)[] = []
+  curLine: StaticLine | null = null
+  breakAtStart = 0
+  markOrder = new MarkOrder
+
+  constructor(readonly state: EditorState, public pos: number) {}
+
+  posCovered() {
+    if (this.content.length == 0)
+      return !this.breakAtStart && this.state.doc.lineAt(this.pos).from != this.pos
+    let last = this.content[this.content.length - 1]
+    return !last.breakAfter && !(last instanceof StaticBlockWidget && last.type == BlockType.WidgetBefore)
+  }
+
+  getLine() {
+    if (!this.curLine) this.content.push(this.curLine = new StaticLine)
+    return this.curLine
+  }
+
+  breakLine() {
+    if (!this.posCovered()) this.getLine()
+    if (this.content.length) this.content[this.content.length - 1].breakAfter = 1
+    else this.breakAtStart = 1
+    this.curLine = null
+  }
+
+  // Add an inline node to the current line, reusing the last
+  // `openStart` marks that were left open by the previous node.
+  append(node: StaticInline, active: readonly MarkDecoration[], openStart: number) {
+    let parent = this.getLine().children, depth = 0
+    for (; depth < openStart && depth < active.length; depth++) {
+      let last = parent[parent.length - 1]
+      if (!(last instanceof StaticMark) || !last.mark.eq(active[depth])) break
+      parent = last.children
+    }
+    for (let i = active.length - 1; i >= depth; i--) node = new StaticMark(active[i], [node])
+    parent.push(node)
+  }
+
+  span(from: number, to: number, active: MarkDecoration[], openStart: number) {
+    let marks = this.markOrder.order(active, openStart)
+    openStart = this.markOrder.openStart
+    // Go through the lines separately, so that the state's line
+    // separator doesn't end up in the output
+    let {doc} = this.state
+    for (let pos = from;;) {
+      let line = doc.lineAt(pos), end = Math.min(to, line.to)
+      if (end > pos) {
+        this.append(doc.sliceString(pos, end), marks, openStart)
+        openStart = marks.length
+      }
+      if (end == to) break
+      this.breakLine()
+      openStart = 0
+      pos = line.to + 1
+    }
+    this.pos = to
+  }
+
+  point(from: number, to: number, deco: Decoration, active: MarkDecoration[], openStart: number) {
+    let marks = this.markOrder.order(active, openStart)
+    openStart = this.markOrder.openStart
+    if (deco instanceof PointDecoration) {
+      if (deco.block) {
+        let {type} = deco
+        if (type == BlockType.WidgetAfter && !this.posCovered()) this.getLine()
+        this.curLine = null
+        this.content.push(new StaticBlockWidget(deco.widget, type))
+      } else {
+        this.append(new StaticWidget(deco.widget, "span"), marks, openStart)
+      }
+    } else if (this.state.doc.lineAt(this.pos).from == this.pos) {
+      let attrs = (deco as LineDecoration).spec.attributes, line = this.getLine()
+      if (attrs) line.attrs = combineAttrs(attrs, line.attrs || {})
+    }
+    this.pos = to
+  }
+
+  static build(state: EditorState, deco: readonly DecorationSet[] = state.facet(decorations),
+               from = 0, to = state.doc.length) {
+    let builder = new StaticBuilder(state, from)
+    RangeSet.spans(deco, from, to, builder)
+    if (!builder.posCovered()) builder.getLine()
+    return builder.content
+  }
+}
+
+function editorAttrs(state: EditorState) {
+  return combineAttrs(state.facet(editorAttributes), {
+    class: "cm-editor cm-wrap " + baseThemeID + " " + (state.facet(darkTheme) ? baseDarkID : baseLightID) + " " +
+      state.facet(theme)
+  })
+}
+
+function contentAttrs(state: EditorState) {
+  return combineAttrs(state.facet(contentAttributes), {
+    class: "cm-content",
+    // Emit the standard property (along with the prefixed one), since
+    // there's no browser to ask which of them is supported
+    style: `tab-size: ${state.tabSize}; -moz-tab-size: ${state.tabSize}`
+  })
+}
+
+function lineAttrs(line: StaticLine) {
+  return combineAttrs({class: "cm-line"}, line.attrs || {})
+}
+
+function needsBreak(line: StaticLine) {
+  let last = line.children[line.children.length - 1]
+  return !last || last instanceof StaticWidget
+}
+
+function escapeHTML(text: string) {
+  return text.replace(/[&<>"]/g, ch => ch == "&" ? "&amp;" : ch == "<" ? "&lt;" : ch == ">" ? "&gt;" : "&quot;")
+}
+
+function attrString(attrs: Attrs) {
+  let result = ""
+  for (let name in attrs) result += ` ${name}="${escapeHTML(attrs[name])}"`
+  return result
+}
+
+// Widgets without a static representation are rendered as an empty
+// placeholder element, since their `toDOM` method expects a view.
+function widgetHTML(widget: WidgetType | null, tag: string) {
+  let html = widget && widget.toStaticHTML()
+  return html != null ? html : `<${tag}></${tag}>`
+}
+
+function inlineHTML(node: StaticInline): string {
+  if (typeof node == "string") return escapeHTML(node)
+  if (node instanceof StaticWidget) return widgetHTML(node.widget, node.tag)
+  let {mark} = node, attrs: Attrs = mark.class ? {class: mark.class} : {}
+  if (mark.attrs) for (let name in mark.attrs) attrs[name] = mark.attrs[name]
+  return `<${mark.tagName}${attrString(attrs)}>${node.children.map(inlineHTML).join("")}</${mark.tagName}>`
+}
+
+/// Render the content of the given state to an HTML string, without
+/// creating a view. This runs the [decorations](#view.EditorView^decorations)
+/// provided by the state through the same pipeline that the editor
+/// uses to draw its content, and produces the same editor, content,
+/// and `cm-line` elements, with the state's theme classes. Since no
+/// view exists, decorations provided by view plugins are not included.
+///
+/// Because this doesn't need a DOM, it can be used in server-side
+/// code. Widgets are rendered using their
+/// [`toStaticHTML`](#view.WidgetType.toStaticHTML) method, or as an
+/// empty element when that returns null.
+export function renderStaticHTML(state: EditorState): string {
+  let html = ""
+  for (let block of StaticBuilder.build(state)) {
+    if (block instanceof StaticBlockWidget) {
+      html += widgetHTML(block.widget, "div")
+    } else {
+      html += `<div${attrString(lineAttrs(block))}>${block.children.map(inlineHTML).join("")}` +
+        (needsBreak(block) ? "<br>" : "") + "</div>"
+    }
+  }
+  return `<div${attrString(editorAttrs(state))}><div class="cm-scroller">` +
+    `<div${attrString(contentAttrs(state))}>${html}</div></div></div>`
+}
+
+function widgetDOM(widget: WidgetType | null, tag: string, doc: Document): HTMLElement {
+  let dom = doc.createElement(tag)
+  dom.innerHTML = widgetHTML(widget, tag)
+  let first = dom.firstChild
+  return first && first.nodeType == 1 && !first.nextSibling ? first as HTMLElement : dom
+}
+
+function setAttrs(dom: HTMLElement, attrs: Attrs) {
+  for (let name in attrs) dom.setAttribute(name, attrs[name])
+  return dom
+}
+
+function inlineDOM(node: StaticInline, doc: Document): Node {
+  if (typeof node == "string") return doc.createTextNode(node)
+  if (node instanceof StaticWidget) return widgetDOM(node.widget, node.tag, doc)
+  let {mark} = node, dom = doc.createElement(mark.tagName)
+  if (mark.class) dom.className = mark.class
+  if (mark.attrs) setAttrs(dom, mark.attrs)
+  for (let child of node.children) dom.appendChild(inlineDOM(child, doc))
+  return dom
+}
+
+/// Render the content of the given state to a detached DOM tree. See
+/// [`renderStaticHTML`](#view.renderStaticHTML) for details, including
+/// how widgets are drawn. Pass a document if you want to create the
+/// nodes in a document other than the global one.
+export function renderStaticDOM(state: EditorState, doc: Document = document): HTMLElement {
+  let content = setAttrs(doc.createElement("div"), contentAttrs(state))
+  for (let block of StaticBuilder.build(state)) {
+    if (block instanceof StaticBlockWidget) {
+      content.appendChild(widgetDOM(block.widget, "div", doc))
+    } else {
+      let line = setAttrs(doc.createElement("div"), lineAttrs(block))
+      for (let child of block.children) line.appendChild(inlineDOM(child, doc))
+      if (needsBreak(block)) line.appendChild(doc.createElement("br"))
+      content.appendChild(line)
+    }
+  }
+  let scroller = doc.createElement("div")
+  scroller.className = "cm-scroller"
+  scroller.appendChild(content)
+  let editor = setAttrs(doc.createElement("div"), editorAttrs(state))
+  editor.appendChild(scroller)
+  return editor
+}
+
+// Render the lines in the given range to `cm-line` elements, drawing
+// only the mark decorations among `deco`.
+export function renderLinesDOM(state: EditorState, deco: readonly DecorationSet[],
+                               from: number, to: number, doc: Document): HTMLElement[] {
+  let marks = deco.map(set => set.update({filter: (_f, _t, value) => value instanceof MarkDecoration}))
+  let lines = []
+  for (let block of StaticBuilder.build(state, marks, from, to)) {
+    let line = setAttrs(doc.createElement("div"), lineAttrs(block as StaticLine))
+    for (let child of (block as StaticLine).children) line.appendChild(inlineDOM(child, doc))
+    lines.push(line)
+  }
+  return lines
+}
+
+/// Get the style modules that statically rendered content for the
+/// given state needs. In the browser, these can be mounted with
+/// `StyleModule.mount`, and on the server, their
+/// [rules](https://github.com/marijnh/style-mod#documentation) can be
+/// included in the page.
+export function staticStyleModules(state: EditorState): readonly StyleModule[] {
+  return state.facet(styleModule).concat(baseTheme).reverse()
+}
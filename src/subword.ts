@@ -0,0 +1,39 @@
+import {EditorSelection, SelectionRange, Transaction} from "@codemirror/state"
+import {EditorView} from "./editorview"
+import {Command} from "./extension"
+import {Direction} from "./bidi"
+
+function moveSel(view: EditorView, how: (range: SelectionRange) => SelectionRange) {
+  let selection = EditorSelection.create(view.state.selection.ranges.map(how), view.state.selection.mainIndex)
+  if (selection.eq(view.state.selection)) return false
+  view.dispatch({
+    selection,
+    scrollIntoView: true,
+    annotations: Transaction.userEvent.of("keyboardselection")
+  })
+  return true
+}
+
+function cursorBySubword(view: EditorView, forward: boolean) {
+  return moveSel(view, range => view.moveBySubword(range, forward))
+}
+
+function selectBySubword(view: EditorView, forward: boolean) {
+  return moveSel(view, range => {
+    let head = view.moveBySubword(range, forward)
+    return EditorSelection.range(range.anchor, head.head, head.goalColumn)
+  })
+}
+
+/// Move the selection one [subword](#view.EditorView.moveBySubword)
+/// to the left (which, in right-to-left text, is forward).
+export const cursorSubwordLeft: Command = view => cursorBySubword(view, view.textDirection != Direction.LTR)
+
+/// Move the selection one subword to the right.
+export const cursorSubwordRight: Command = view => cursorBySubword(view, view.textDirection == Direction.LTR)
+
+/// Extend the selection heads one subword to the left.
+export const selectSubwordLeft: Command = view => selectBySubword(view, view.textDirection != Direction.LTR)
+
+/// Extend the selection heads one subword to the right.
+export const selectSubwordRight: Command = view => selectBySubword(view, view.textDirection == Direction.LTR)
@@ -77,9 +77,18 @@ export const baseTheme = buildTheme("." + baseThemeID, {
     padding: "0 2px 0 4px"
   },
 
-  ".cm-selectionLayer": {
-    zIndex: -1,
-    contain: "size style"
+  ".cm-layer": {
+    contain: "size style",
+    "& > *": {
+      position: "absolute"
+    }
+  },
+  ".cm-layer-below": {
+    zIndex: -1
+  },
+  ".cm-layer-above": {
+    zIndex: 100,
+    pointerEvents: "none"
   },
 
   ".cm-selectionBackground": {
@@ -98,11 +107,6 @@ export const baseTheme = buildTheme("." + baseThemeID, {
     background: "#233"
   },
 
-  ".cm-cursorLayer": {
-    zIndex: 100,
-    contain: "size style",
-    pointerEvents: "none"
-  },
   "&.cm-focused .cm-cursorLayer": {
     animation: "steps(1) cm-blink 1.2s infinite"
   },
@@ -128,8 +132,63 @@ export const baseTheme = buildTheme("." + baseThemeID, {
     display: "block"
   },
 
+  ".cm-cursor-block": {
+    borderLeft: "none",
+    marginLeft: 0
+  },
+  ".cm-cursor-underline": {
+    borderLeft: "none",
+    marginLeft: 0,
+    boxSizing: "border-box"
+  },
+  "&light .cm-cursor-block": {
+    backgroundColor: "rgba(0, 0, 0, 0.4)"
+  },
+  "&dark .cm-cursor-block": {
+    backgroundColor: "rgba(255, 255, 255, 0.4)"
+  },
+  "&light .cm-cursor-underline": {
+    borderBottom: "2px solid black"
+  },
+  "&dark .cm-cursor-underline": {
+    borderBottom: "2px solid #444"
+  },
+
+  ".cm-dropCursor": {
+    position: "absolute",
+    borderLeft: "1.2px solid black",
+    marginLeft: "-0.6px",
+    pointerEvents: "none"
+  },
+  "&dark .cm-dropCursor": {
+    borderLeftColor: "#ddd"
+  },
+
+  ".cm-touchHandle": {
+    width: "2px",
+    marginLeft: "-1px",
+    pointerEvents: "auto",
+    touchAction: "none",
+    "&::after": {
+      content: "''",
+      position: "absolute",
+      top: "100%",
+      left: "-8px",
+      width: "18px",
+      height: "18px",
+      borderRadius: "50%",
+      backgroundColor: "inherit"
+    }
+  },
+  "&light .cm-touchHandle": { backgroundColor: "#3a7dff" },
+  "&dark .cm-touchHandle": { backgroundColor: "#7aa8ff" },
+
   "&light .cm-activeLine": { backgroundColor: "#f3f9ff" },
   "&dark .cm-activeLine": { backgroundColor: "#223039" },
+  "&light .cm-selectionMatch": { backgroundColor: "#99ff7780" },
+  "&dark .cm-selectionMatch": { backgroundColor: "#aafe661a" },
+  "&light .cm-selectionMatch-main": { backgroundColor: "#ddffcc" },
+  "&dark .cm-selectionMatch-main": { backgroundColor: "#42512f" },
 
   "&light .cm-specialChar": { color: "red" },
   "&dark .cm-specialChar": { color: "#f78" },
@@ -0,0 +1,168 @@
+import {StateField, StateEffect, EditorSelection, Extension, Transaction} from "@codemirror/state"
+import {EditorView} from "./editorview"
+import {ViewPlugin} from "./extension"
+import {layer, RectangleMarker} from "./layer"
+import {groupAt} from "./cursor"
+
+const setHandlesShown = StateEffect.define<boolean>()
+
+const handlesShown = StateField.define<boolean>({
+  create() { return false },
+  update(shown, tr) {
+    for (let e of tr.effects) if (e.is(setHandlesShown)) shown = e.value
+    return shown
+  }
+})
+
+const handleLayer = layer({
+  above: true,
+  markers(view) {
+    if (!view.state.field(handlesShown)) return []
+    let {main} = view.state.selection
+    if (main.empty) return RectangleMarker.forRange(view, "cm-touchHandle cm-touchHandle-cursor", main)
+    return RectangleMarker.forRange(view, "cm-touchHandle cm-touchHandle-start", EditorSelection.cursor(main.from, 1))
+      .concat(RectangleMarker.forRange(view, "cm-touchHandle cm-touchHandle-end", EditorSelection.cursor(main.to, -1)))
+  },
+  update(update) {
+    return update.selectionSet || update.startState.field(handlesShown, false) != update.state.field(handlesShown)
+  },
+  class: "cm-touchHandleLayer"
+})
+
+// Time (ms) a touch has to be held to select a word
+const LongPressTime = 500
+// Distance (px) a touch may move before it no longer counts as a
+// long press
+const LongPressSlop = 10
+
+type Handle = "start" | "end" | "cursor"
+
+const touchSelectionPlugin = ViewPlugin.fromClass(class {
+  // The handle being dragged, and the vertical distance between the
+  // touch and the center of the handle's line
+  dragging: {handle: Handle, offset: number} | null = null
+  longPress = -1
+  touchStart: {x: number, y: number} | null = null
+  lastTouch = 0
+
+  constructor(readonly view: EditorView) {
+    // The handles live outside of the content element, so events on
+    // them aren't seen by the view's own event handling
+    this.handleStart = this.handleStart.bind(this)
+    this.handleMove = this.handleMove.bind(this)
+    this.handleEnd = this.handleEnd.bind(this)
+    view.scrollDOM.addEventListener("touchstart", this.handleStart, {passive: false})
+    view.scrollDOM.addEventListener("touchmove", this.handleMove, {passive: false})
+    view.scrollDOM.addEventListener("touchend", this.handleEnd)
+    view.scrollDOM.addEventListener("touchcancel", this.handleEnd)
+  }
+
+  handleStart(event: TouchEvent) {
+    let handle = /\bcm-touchHandle-(start|end|cursor)\b/.exec((event.target as HTMLElement).className || "")
+    if (!handle || event.touches.length != 1) return
+    let rect = (event.target as HTMLElement).getBoundingClientRect()
+    this.dragging = {handle: handle[1] as Handle, offset: event.touches[0].clientY - (rect.top + rect.bottom) / 2}
+    event.preventDefault()
+  }
+
+  handleMove(event: TouchEvent) {
+    if (!this.dragging) return
+    event.preventDefault()
+    let touch = event.touches[0]
+    let pos = this.view.posAtCoords({x: touch.clientX, y: touch.clientY - this.dragging.offset})
+    if (pos == null) return
+    let {handle} = this.dragging, {main} = this.view.state.selection, range
+    if (handle == "cursor") {
+      range = EditorSelection.cursor(pos)
+    } else {
+      // Don't let the handles cross or meet
+      let anchor = handle == "start" ? main.to : main.from
+      if (handle == "start" ? pos >= anchor : pos <= anchor) return
+      range = EditorSelection.range(anchor, pos)
+    }
+    if (!range.eq(main)) this.view.dispatch({
+      selection: this.view.state.selection.replaceRange(range),
+      annotations: Transaction.userEvent.of("pointerselection"),
+      scrollIntoView: true
+    })
+  }
+
+  handleEnd() {
+    this.dragging = null
+  }
+
+  setShown(shown: boolean) {
+    if (this.view.state.field(handlesShown) != shown) this.view.dispatch({effects: setHandlesShown.of(shown)})
+  }
+
+  selectWord() {
+    this.longPress = -1
+    let pos = this.touchStart && this.view.posAtCoords(this.touchStart)
+    if (pos == null) return
+    let word = groupAt(this.view.state, pos)
+    if (word.empty) return
+    this.view.dispatch({
+      selection: EditorSelection.create([word]),
+      effects: setHandlesShown.of(true),
+      annotations: Transaction.userEvent.of("pointerselection")
+    })
+  }
+
+  cancelLongPress() {
+    if (this.longPress > -1) {
+      clearTimeout(this.longPress)
+      this.longPress = -1
+    }
+    this.touchStart = null
+  }
+
+  destroy() {
+    this.cancelLongPress()
+    this.view.scrollDOM.removeEventListener("touchstart", this.handleStart)
+    this.view.scrollDOM.removeEventListener("touchmove", this.handleMove)
+    this.view.scrollDOM.removeEventListener("touchend", this.handleEnd)
+    this.view.scrollDOM.removeEventListener("touchcancel", this.handleEnd)
+  }
+}, {
+  eventHandlers: {
+    touchstart(event) {
+      this.lastTouch = Date.now()
+      this.cancelLongPress()
+      if (event.touches.length != 1) return
+      this.setShown(true)
+      this.touchStart = {x: event.touches[0].clientX, y: event.touches[0].clientY}
+      this.longPress = setTimeout(() => this.selectWord(), LongPressTime)
+    },
+    touchmove(event) {
+      let touch = event.touches[0], start = this.touchStart
+      if (start && (Math.abs(touch.clientX - start.x) > LongPressSlop || Math.abs(touch.clientY - start.y) > LongPressSlop))
+        this.cancelLongPress()
+    },
+    touchend() {
+      this.cancelLongPress()
+    },
+    keydown() {
+      this.setShown(false)
+    },
+    mousedown() {
+      // Browsers fire emulated mouse events after touches
+      if (this.lastTouch < Date.now() - 2000) this.setShown(false)
+    }
+  }
+})
+
+/// Returns an extension that, on touch devices, draws draggable
+/// handles at the start and end of the main selection range (or a
+/// single handle at the cursor when the selection is empty). This
+/// makes it possible to adjust the selection when
+/// [`drawSelection`](#view.drawSelection) hides the browser's native
+/// selection handles. The handles are shown after touch input, and
+/// hidden again when the keyboard or mouse is used. Touching and
+/// holding a word selects it.
+///
+/// The handles are drawn in a [layer](#view.layer), with the
+/// `cm-touchHandle` class, along with `cm-touchHandle-start`,
+/// `cm-touchHandle-end`, or `cm-touchHandle-cursor`.
+export function touchSelectionHandles(): Extension {
+  return [handlesShown, handleLayer, touchSelectionPlugin]
+}
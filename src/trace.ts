@@ -0,0 +1,71 @@
+import {Facet, EditorState} from "@codemirror/state"
+import {ViewPlugin, MeasureRequest, logException} from "./extension"
+import {SyncCounts} from "./contentview"
+
+/// Timing information for a single update cycle of the view,
+/// delivered to [trace listeners](#view.EditorView^perfTracer). All
+/// times are in milliseconds.
+export interface PerfTrace {
+  /// Whether this cycle was a regular update (through
+  /// [`EditorView.update`](#view.EditorView.update)) or a layout
+  /// check, in which the view measures its DOM and runs [measure
+  /// requests](#view.EditorView.requestMeasure).
+  type: "update" | "measure"
+  /// The total time taken by the cycle.
+  time: number
+  /// The time spent updating (or creating) each view plugin. A plugin
+  /// may occur more than once when it was updated multiple times
+  /// during a layout check.
+  plugins: readonly {plugin: ViewPlugin<any>, time: number}[]
+  /// The time spent updating the document view's DOM.
+  docViewTime: number
+  /// The amount of read/write iterations the layout check needed.
+  /// Always zero for regular updates.
+  measureIterations: number
+  /// The time spent in the `read` and `write` methods of each
+  /// measure request.
+  measureRequests: readonly {request: MeasureRequest<any>, read: number, write: number}[]
+  /// The number of content DOM nodes created during the cycle.
+  domCreated: number
+  /// The number of existing content DOM nodes that were reused
+  /// (updated in place) during the cycle.
+  domReused: number
+}
+
+export const perfTracer = Facet.define<(trace: PerfTrace) => void>()
+
+export function traceTime() {
+  return typeof performance != "undefined" ? performance.now() : Date.now()
+}
+
+export class TraceBuilder implements PerfTrace {
+  time = 0
+  plugins: {plugin: ViewPlugin<any>, time: number}[] = []
+  docViewTime = 0
+  measureIterations = 0
+  measureRequests: {request: MeasureRequest<any>, read: number, write: number}[] = []
+  domCreated = 0
+  domReused = 0
+  private start = traceTime()
+  private created: number
+  private reused: number
+
+  constructor(readonly type: "update" | "measure", private counts: SyncCounts) {
+    this.created = counts.created
+    this.reused = counts.reused
+  }
+
+  finish(state: EditorState) {
+    this.time = traceTime() - this.start
+    this.domCreated = this.counts.created - this.created
+    this.domReused = this.counts.reused - this.reused
+    for (let listener of state.facet(perfTracer)) {
+      try { listener(this) }
+      catch (e) { logException(state, e) }
+    }
+  }
+
+  static start(state: EditorState, type: "update" | "measure", counts: SyncCounts) {
+    return state.facet(perfTracer).length ? new TraceBuilder(type, counts) : null
+  }
+}
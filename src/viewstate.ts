@@ -1,36 +1,15 @@
 import {Text} from "@codemirror/text"
-import {EditorState, ChangeSet, ChangeDesc, SelectionRange} from "@codemirror/state"
+import {EditorState, ChangeSet, ChangeDesc} from "@codemirror/state"
 import {RangeSet} from "@codemirror/rangeset"
-import {Rect} from "./dom"
+import {Rect, visibleClientRect} from "./dom"
 import {HeightMap, HeightOracle, BlockInfo, MeasuredHeights, QueryType, heightRelevantDecoChanges} from "./heightmap"
-import {decorations, ViewUpdate, UpdateFlag, ChangedRange} from "./extension"
+import {decorations, ViewUpdate, UpdateFlag, ChangedRange, ScrollTarget} from "./extension"
 import {WidgetType, Decoration, DecorationSet} from "./decoration"
 import {DocView} from "./docview"
 import {Direction} from "./bidi"
 
 function visiblePixelRange(dom: HTMLElement, paddingTop: number): Rect {
-  let rect = dom.getBoundingClientRect()
-  let left = Math.max(0, rect.left), right = Math.min(innerWidth, rect.right)
-  let top = Math.max(0, rect.top), bottom = Math.min(innerHeight, rect.bottom)
-  for (let parent = dom.parentNode as any; parent;) { // (Cast to any because TypeScript is useless with Node types)
-    if (parent.nodeType == 1) {
-      let style = window.getComputedStyle(parent)
-      if ((parent.scrollHeight > parent.clientHeight || parent.scrollWidth > parent.clientWidth) &&
-          style.overflow != "visible") {
-        let parentRect = parent.getBoundingClientRect()
-        left = Math.max(left, parentRect.left)
-        right = Math.min(right, parentRect.right)
-        top = Math.max(top, parentRect.top)
-        bottom = Math.min(bottom, parentRect.bottom)
-      }
-      parent = style.position == "absolute" || style.position == "fixed" ? parent.offsetParent : parent.parentNode
-    } else if (parent.nodeType == 11) { // Shadow root
-      parent = parent.host
-    } else {
-      break
-    }
-  }
-  
+  let rect = dom.getBoundingClientRect(), {left, right, top, bottom} = visibleClientRect(dom, rect)
   return {left: left - rect.left, right: right - rect.left,
           top: top - (rect.top + paddingTop), bottom: bottom - (rect.top + paddingTop)}
 }
@@ -103,7 +82,7 @@ export class ViewState {
   // See VP.MaxDOMHeight
   scaler = IdScaler
 
-  scrollTo: SelectionRange | null = null
+  scrollTarget: ScrollTarget | null = null
   // Briefly set to true when printing, to disable viewport limiting
   printing = false
 
@@ -127,6 +106,22 @@ export class ViewState {
   // the right place.
   mustEnforceCursorAssoc = false
 
+  // Set when something that affects text metrics, such as a font
+  // being loaded or the zoom level changing, happened. Causes the
+  // next measure to refresh the height oracle, even when the line
+  // heights it sees look familiar.
+  mustRefreshOracle = false
+
+  // Decorations provided by plugins through
+  // PluginField.layoutDecorations, as they were last fed into the
+  // height map.
+  pluginDeco: readonly DecorationSet[] = []
+
+  // Update flags for changes made outside of a measure cycle (when
+  // plugin decorations moved the viewport), which the next measure
+  // should report, so that plugins are notified of them.
+  pendingFlags = 0
+
   constructor(public state: EditorState) {
     this.heightMap = HeightMap.empty().applyChanges(state.facet(decorations), Text.empty, this.heightOracle.setDoc(state.doc),
                                                     [new ChangedRange(0, 0, 0, state.doc.length)])
@@ -152,21 +147,29 @@ export class ViewState {
       new BigScaler(this.heightOracle.doc, this.heightMap, this.viewports)
   }
 
-  update(update: ViewUpdate, scrollTo: SelectionRange | null = null) {
-    let prev = this.state
+  // The decorations that determine the structure of the height map
+  get layoutDeco(): readonly DecorationSet[] {
+    let deco = this.state.facet(decorations)
+    return this.pluginDeco.length ? deco.concat(this.pluginDeco) : deco
+  }
+
+  update(update: ViewUpdate, scrollTarget: ScrollTarget | null = null) {
+    let prev = this.state, prevDeco = this.layoutDeco
     this.state = update.state
-    let newDeco = this.state.facet(decorations)
+    if (this.pluginDeco.length) this.pluginDeco = this.pluginDeco.map(deco => deco.map(update.changes))
+    let newDeco = this.layoutDeco
     let contentChanges = update.changedRanges
     
     let heightChanges = ChangedRange.extendWithRanges(contentChanges, heightRelevantDecoChanges(
-      update.startState.facet(decorations), newDeco, update ? update.changes : ChangeSet.empty(this.state.doc.length)))
+      prevDeco, newDeco, update ? update.changes : ChangeSet.empty(this.state.doc.length)))
     let prevHeight = this.heightMap.height
     this.heightMap = this.heightMap.applyChanges(newDeco, prev.doc, this.heightOracle.setDoc(this.state.doc), heightChanges)
     if (this.heightMap.height != prevHeight) update.flags |= UpdateFlag.Height
 
     let viewport = heightChanges.length ? this.mapViewport(this.viewport, update.changes) : this.viewport
-    if (scrollTo && (scrollTo.head < viewport.from || scrollTo.head > viewport.to) || !this.viewportIsAppropriate(viewport))
-      viewport = this.getViewport(0, scrollTo)
+    if (scrollTarget && (scrollTarget.range.head < viewport.from || scrollTarget.range.head > viewport.to) ||
+        !this.viewportIsAppropriate(viewport))
+      viewport = this.getViewport(0, scrollTarget)
     if (!viewport.eq(this.viewport)) {
       this.viewport = viewport
       update.flags |= UpdateFlag.Viewport
@@ -176,13 +179,42 @@ export class ViewState {
       update.flags |= this.updateLineGaps(this.ensureLineGaps(this.mapLineGaps(this.lineGaps, update.changes)))
     this.computeVisibleRanges()
 
-    if (scrollTo) this.scrollTo = scrollTo
+    if (scrollTarget) this.scrollTarget = scrollTarget
 
     if (!this.mustEnforceCursorAssoc && update.selectionSet && update.view.lineWrapping &&
         update.state.selection.main.empty && update.state.selection.main.assoc)
       this.mustEnforceCursorAssoc = true
   }
 
+  // Update the layout decorations provided by plugins. Returns the
+  // update flags for the changes this caused.
+  updatePluginDeco(deco: readonly DecorationSet[]) {
+    let prev = this.pluginDeco
+    if (prev.length == deco.length && prev.every((d, i) => d == deco[i])) return 0
+    let stateDeco = this.state.facet(decorations)
+    let changes = heightRelevantDecoChanges(stateDeco.concat(prev), stateDeco.concat(deco),
+                                            ChangeSet.empty(this.state.doc.length))
+    this.pluginDeco = deco
+    let result = 0, prevHeight = this.heightMap.height
+    if (changes.length) {
+      this.heightMap = this.heightMap.applyChanges(this.layoutDeco, this.state.doc, this.heightOracle,
+                                                   ChangedRange.extendWithRanges([], changes))
+      if (this.heightMap.height != prevHeight) result |= UpdateFlag.Height
+      if (!this.viewportIsAppropriate(this.viewport)) {
+        let viewport = this.getViewport(0, this.scrollTarget)
+        if (!viewport.eq(this.viewport)) {
+          this.viewport = viewport
+          result |= UpdateFlag.Viewport
+        }
+      }
+      this.updateForViewport()
+      if (this.lineGaps.length || this.viewport.to - this.viewport.from > LG.MinViewPort)
+        result |= this.updateLineGaps(this.ensureLineGaps(this.lineGaps))
+    }
+    this.computeVisibleRanges()
+    return result
+  }
+
   measure(docView: DocView, repeated: boolean) {
     let dom = docView.dom, whiteSpace = "", direction: Direction = Direction.LTR
 
@@ -202,14 +234,17 @@ export class ViewState {
     if (!this.inView) return 0
 
     let lineHeights = docView.measureVisibleLineHeights()
-    let refresh = false, bias = 0, result = 0, oracle = this.heightOracle
+    let refresh = false, bias = 0, result = this.pendingFlags, oracle = this.heightOracle
+    this.pendingFlags = 0
 
     if (!repeated) {
       let contentWidth = docView.dom.clientWidth
-      if (oracle.mustRefresh(lineHeights, whiteSpace, direction) ||
+      if (this.mustRefreshOracle || oracle.mustRefresh(lineHeights, whiteSpace, direction) ||
           oracle.lineWrapping && Math.abs(contentWidth - this.contentWidth) > oracle.charWidth) {
         let {lineHeight, charWidth} = docView.measureTextSize()
-        refresh = oracle.refresh(whiteSpace, direction, lineHeight, charWidth, contentWidth / charWidth, lineHeights)
+        refresh = oracle.refresh(whiteSpace, direction, lineHeight, charWidth, contentWidth / charWidth, lineHeights) ||
+          this.mustRefreshOracle
+        this.mustRefreshOracle = false
         if (refresh) {
           docView.minWidth = 0
           result |= UpdateFlag.Geometry
@@ -230,8 +265,9 @@ export class ViewState {
 
     if (oracle.heightChanged) result |= UpdateFlag.Height
     if (!this.viewportIsAppropriate(this.viewport, bias) ||
-        this.scrollTo && (this.scrollTo.head < this.viewport.from || this.scrollTo.head > this.viewport.to)) {
-      let newVP = this.getViewport(bias, this.scrollTo)
+        this.scrollTarget && (this.scrollTarget.range.head < this.viewport.from ||
+                              this.scrollTarget.range.head > this.viewport.to)) {
+      let newVP = this.getViewport(bias, this.scrollTarget)
       if (newVP.from != this.viewport.from || newVP.to != this.viewport.to) {
         this.viewport = newVP
         result |= UpdateFlag.Viewport
@@ -257,7 +293,7 @@ export class ViewState {
   get visibleTop() { return this.scaler.fromDOM(this.pixelViewport.top, 0) }
   get visibleBottom() { return this.scaler.fromDOM(this.pixelViewport.bottom, 0) }
 
-  getViewport(bias: number, scrollTo: SelectionRange | null): Viewport {
+  getViewport(bias: number, scrollTarget: ScrollTarget | null): Viewport {
     // This will divide VP.Margin between the top and the
     // bottom, depending on the bias (the change in viewport position
     // since the last update). It'll hold a number between 0 and 1
@@ -265,17 +301,17 @@ export class ViewState {
     let map = this.heightMap, doc = this.state.doc, {visibleTop, visibleBottom} = this
     let viewport = new Viewport(map.lineAt(visibleTop - marginTop * VP.Margin, QueryType.ByHeight, doc, 0, 0).from,
                                 map.lineAt(visibleBottom + (1 - marginTop) * VP.Margin, QueryType.ByHeight, doc, 0, 0).to)
-    // If scrollTo is given, make sure the viewport includes that position
-    if (scrollTo) {
-      if (scrollTo.head < viewport.from) {
-        let {top: newTop} = map.lineAt(scrollTo.head, QueryType.ByPos, doc, 0, 0)
-        viewport = new Viewport(map.lineAt(newTop - VP.Margin / 2, QueryType.ByHeight, doc, 0, 0).from,
-                                map.lineAt(newTop + (visibleBottom - visibleTop) + VP.Margin / 2, QueryType.ByHeight, doc, 0, 0).to)
-      } else if (scrollTo.head > viewport.to) {
-        let {bottom: newBottom} = map.lineAt(scrollTo.head, QueryType.ByPos, doc, 0, 0)
-        viewport = new Viewport(map.lineAt(newBottom - (visibleBottom - visibleTop) - VP.Margin / 2,
-                                           QueryType.ByHeight, doc, 0, 0).from,
-                                map.lineAt(newBottom + VP.Margin / 2, QueryType.ByHeight, doc, 0, 0).to)
+    // If scrollTarget is given, make sure the viewport includes that position
+    if (scrollTarget) {
+      let {head} = scrollTarget.range
+      if (head < viewport.from || head > viewport.to) {
+        let viewHeight = visibleBottom - visibleTop, topPos
+        let block = map.lineAt(head, QueryType.ByPos, doc, 0, 0)
+        if (scrollTarget.y == "center") topPos = (block.top + block.bottom) / 2 - viewHeight / 2
+        else if (scrollTarget.y == "start" || scrollTarget.y == "nearest" && head < viewport.from) topPos = block.top
+        else topPos = block.bottom - viewHeight
+        viewport = new Viewport(map.lineAt(topPos - VP.Margin / 2, QueryType.ByHeight, doc, 0, 0).from,
+                                map.lineAt(topPos + viewHeight + VP.Margin / 2, QueryType.ByHeight, doc, 0, 0).to)
       }
     }
     return viewport
@@ -320,7 +356,7 @@ export class ViewState {
     if (this.heightOracle.direction != Direction.LTR) return gaps
     this.heightMap.forEachLine(this.viewport.from, this.viewport.to, this.state.doc, 0, 0, line => {
       if (line.length < LG.Margin) return
-      let structure = lineStructure(line.from, line.to, this.state)
+      let structure = lineStructure(line.from, line.to, this.layoutDeco)
       if (structure.total < LG.Margin) return
       let viewFrom, viewTo
       if (this.heightOracle.lineWrapping) {
@@ -370,7 +406,7 @@ export class ViewState {
   }
 
   computeVisibleRanges() {
-    let deco = this.state.facet(decorations)
+    let deco = this.layoutDeco
     if (this.lineGaps.length) deco = deco.concat(this.lineGapDeco)
     let ranges: {from: number, to: number}[] = []
     RangeSet.spans(deco, this.viewport.from, this.viewport.to, {
@@ -420,9 +456,9 @@ export class Viewport {
   eq(b: Viewport) { return this.from == b.from && this.to == b.to }
 }
 
-function lineStructure(from: number, to: number, state: EditorState) {
+function lineStructure(from: number, to: number, deco: readonly DecorationSet[]) {
   let ranges = [], pos = from, total = 0
-  RangeSet.spans(state.facet(decorations), from, to, {
+  RangeSet.spans(deco, from, to, {
     span() {},
     point(from, to) {
       if (from > pos) { ranges.push({from: pos, to: from}); total += from - pos }
@@ -0,0 +1,79 @@
+import {EditorView, Decoration, WidgetType, renderStaticHTML} from "@codemirror/view"
+import {EditorState} from "@codemirror/state"
+import ist from "ist"
+
+class Tag extends WidgetType {
+  constructor(readonly name: string) { super() }
+  toDOM(): HTMLElement { throw new Error("Not available") }
+  toStaticHTML() { return `<${this.name}></${this.name}>` }
+}
+
+function render(doc: string, decos: any[] = []) {
+  let state = EditorState.create({doc, extensions: [EditorView.decorations.of(Decoration.set(decos))]})
+  let html = renderStaticHTML(state)
+  let content = /<div class="cm-content"[^>]*>(.*)<\/div><\/div><\/div>$/.exec(html)
+  return content ? content[1] : html
+}
+
+describe("renderStaticHTML", () => {
+  it("renders lines", () => {
+    ist(render("one\n\ntwo"), `<div class="cm-line">one</div><div class="cm-line"><br></div><div class="cm-line">two</div>`)
+  })
+
+  it("doesn't include the line separator", () => {
+    let state = EditorState.create({doc: "one\r\ntwo", extensions: [EditorState.lineSeparator.of("\r\n")]})
+    ist(renderStaticHTML(state).indexOf("\r"), -1)
+  })
+
+  it("sets the standard tab size property", () => {
+    let html = renderStaticHTML(EditorState.create({doc: "\tx", extensions: [EditorState.tabSize.of(2)]}))
+    ist(/<div class="cm-content" style="tab-size: 2; -moz-tab-size: 2">/.test(html))
+  })
+
+  it("renders widgets without static HTML as placeholders", () => {
+    class Viewful extends WidgetType {
+      toDOM(view: EditorView) { return view.dom }
+    }
+    ist(render("ab", [Decoration.widget({widget: new Viewful}).range(1)]), `<div class="cm-line">a<span></span>b</div>`)
+  })
+
+  it("escapes text", () => {
+    ist(render("a<b & c"), `<div class="cm-line">a&lt;b &amp; c</div>`)
+  })
+
+  it("includes theme classes", () => {
+    ist(/^<div class="cm-editor cm-wrap \S+ \S+ /.test(renderStaticHTML(EditorState.create({doc: "x"}))))
+  })
+
+  it("nests marks", () => {
+    ist(render("abcdef", [Decoration.mark({class: "a"}).range(0, 4), Decoration.mark({class: "b"}).range(2, 6)]),
+        `<div class="cm-line"><span class="a">ab<span class="b">cd</span></span><span class="b">ef</span></div>`)
+  })
+
+  it("nests marks by priority", () => {
+    ist(render("abcdef", [Decoration.mark({class: "a"}).range(0, 4),
+                          Decoration.mark({class: "b", priority: 1}).range(2, 6)]),
+        `<div class="cm-line"><span class="a">ab</span><span class="b"><span class="a">cd</span>ef</span></div>`)
+  })
+
+  it("renders marks across lines", () => {
+    ist(render("ab\ncd", [Decoration.mark({class: "m"}).range(1, 4)]),
+        `<div class="cm-line">a<span class="m">b</span></div><div class="cm-line"><span class="m">c</span>d</div>`)
+  })
+
+  it("renders line decorations", () => {
+    ist(render("a\nb", [Decoration.line({attributes: {class: "x"}}).range(2)]),
+        `<div class="cm-line">a</div><div class="x cm-line">b</div>`)
+  })
+
+  it("renders widgets and replaced content", () => {
+    ist(render("abc", [Decoration.widget({widget: new Tag("em")}).range(1),
+                       Decoration.replace({}).range(2, 3)]),
+        `<div class="cm-line">a<em></em>b<span></span><br></div>`)
+  })
+
+  it("renders block widgets", () => {
+    ist(render("a\nb", [Decoration.widget({widget: new Tag("hr"), block: true, side: 1}).range(1)]),
+        `<div class="cm-line">a</div><hr></hr><div class="cm-line">b</div>`)
+  })
+})
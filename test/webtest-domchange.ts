@@ -193,4 +193,17 @@ describe("DOM changes", () => {
     flush(cm)
     ist(cm.state.doc.toString(), "abcD")
   })
+
+  it("refuses changes in a read-only editor", () => {
+    let blocked: string[] = []
+    let cm = tempView("abc", [EditorView.readOnly.of(true),
+                              EditorView.blockedEditListener.of((_, type) => { blocked.push(type) })])
+    let text = cm.domAtPos(1).node
+    text.nodeValue = "abxc"
+    flush(cm)
+    ist(cm.state.doc.toString(), "abc")
+    ist(text.nodeValue, "abc")
+    ist(blocked.join(), "input")
+    ist(cm.contentDOM.getAttribute("contenteditable"), "true")
+  })
 })
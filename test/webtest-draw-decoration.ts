@@ -1,4 +1,6 @@
-import {EditorView, Decoration, DecorationSet, WidgetType, Range} from "@codemirror/view"
+import {EditorView, Decoration, DecorationSet, WidgetType, Range,
+        ViewPlugin, ViewUpdate, PluginField, highlightSelectionMatches,
+        htmlClipboard} from "@codemirror/view"
 import {tempView, requireFocus} from "@codemirror/buildhelper/lib/tempview"
 import {EditorSelection, StateEffect, StateField} from "@codemirror/state"
 import ist from "ist"
@@ -139,6 +141,26 @@ describe("EditorView decoration", () => {
     ist(b[0].parentNode, a[0])
   })
 
+  it("wraps lower-priority marks in higher-priority ones", () => {
+    let cm = tempView("abcdef", [decos(Decoration.set([d(0, 4, {class: "a"})])),
+                                 decos(Decoration.set([d(2, 6, {class: "b", priority: 1})]))])
+    let a = cm.contentDOM.querySelectorAll(".a"), b = cm.contentDOM.querySelectorAll(".b")
+    ist(b.length, 1)
+    ist(a.length, 2)
+    ist(b[0].textContent, "cdef")
+    ist(a[1].textContent, "cd")
+    ist(a[1].parentNode, b[0])
+  })
+
+  it("keeps prioritized marks in a single element when editing inside them", () => {
+    let cm = tempView("abcdef", [decos(Decoration.set([d(0, 4, {class: "a"})])),
+                                 decos(Decoration.set([d(2, 6, {class: "b", priority: 1})]))])
+    cm.dispatch({changes: {from: 5, insert: "x"}})
+    let b = cm.contentDOM.querySelectorAll(".b")
+    ist(b.length, 1)
+    ist(b[0].textContent, "cdexf")
+  })
+
   it("properly updates the viewport gap when changes fall inside it", () => {
     let doc = "a\n".repeat(500)
     let cm = decoEditor(doc, [d(600, 601, "x")])
@@ -194,6 +216,52 @@ describe("EditorView decoration", () => {
       ist(elt, cm.contentDOM.querySelector("strong"))
     })
 
+    class TrackedWidget extends WidgetType {
+      constructor(readonly name: string, readonly log: string[]) { super() }
+      eq(other: TrackedWidget) { return other.name == this.name }
+      toDOM() {
+        let elt = document.createElement("var")
+        elt.textContent = this.name
+        return elt
+      }
+      destroy(dom: HTMLElement) { this.log.push("destroy " + dom.textContent) }
+      mounted(dom: HTMLElement) { this.log.push("mounted " + dom.textContent + " " + dom.isConnected) }
+    }
+
+    it("calls destroy when a widget is removed", () => {
+      let log: string[] = []
+      let cm = decoEditor("hello", [w(2, new TrackedWidget("a", log)), w(4, new TrackedWidget("b", log))])
+      cm.dispatch({effects: filterDeco.of(from => from == 4)})
+      ist(log.join(), "destroy a")
+      cm.dispatch({changes: {from: 3, to: 5}})
+      ist(log.join(), "destroy a,destroy b")
+    })
+
+    it("calls destroy when a widget is redrawn", () => {
+      let log: string[] = []
+      let cm = decoEditor("hello", [w(2, new TrackedWidget("a", log))])
+      cm.dispatch({effects: [filterDeco.of(() => false), addDeco.of([w(2, new TrackedWidget("b", log))])]})
+      ist(log.join(), "destroy a")
+      ist(cm.contentDOM.querySelector("var")!.textContent, "b")
+    })
+
+    it("calls destroy when the view is destroyed", () => {
+      let log: string[] = []
+      let cm = decoEditor("hello", [w(2, new TrackedWidget("a", log))])
+      cm.destroy()
+      ist(log.join(), "destroy a")
+    })
+
+    it("calls mounted after the widget is added to the document", () => {
+      let log: string[] = []
+      let cm = decoEditor("hello", [w(2, new TrackedWidget("a", log))])
+      cm.measure()
+      ist(log.join(), "mounted a true")
+      cm.dispatch({effects: addDeco.of([w(4, new TrackedWidget("b", log))])})
+      cm.measure()
+      ist(log.join(), "mounted a true,mounted b true")
+    })
+
     it("notices replaced replacement decorations", () => {
       let cm = decoEditor("abc", [Decoration.replace({widget: new WordWidget("X")}).range(1, 2)])
       cm.dispatch({effects: [filterDeco.of(() => false),
@@ -518,6 +586,25 @@ describe("EditorView decoration", () => {
       widgets(cm, ["A"], [], ["C"])
     })
 
+    it("takes layout decorations from plugins into account in the height map", () => {
+      let setDeco = StateEffect.define<DecorationSet>()
+      let plugin = ViewPlugin.fromClass(class {
+        deco = Decoration.none
+        update(update: ViewUpdate) {
+          for (let tr of update.transactions) for (let e of tr.effects) if (e.is(setDeco)) this.deco = e.value
+        }
+      }, {provide: PluginField.layoutDecorations.from(v => v.deco)})
+      let cm = tempView("one\ntwo\nthree\nfour", [plugin])
+      cm.dispatch({effects: setDeco.of(Decoration.set([Decoration.replace({}).range(2, 9), bw(13, 1, "Y")]))})
+      widgets(cm, [], ["Y"], [])
+      let line = cm.visualLineAt(5)
+      ist(line.from, 0)
+      ist(line.to, 13)
+      cm.dispatch({effects: setDeco.of(Decoration.none)})
+      widgets(cm, [], [], [], [], [])
+      ist(cm.visualLineAt(5).from, 4)
+    })
+
     it("allows splitting a block widget", () => {
       let cm = decoEditor("1234567890", [br(1, 9, "X")])
       cm.dispatch({
@@ -527,4 +614,96 @@ describe("EditorView decoration", () => {
       widgets(cm, [], ["X"], ["X"], [])
     })
   })
+
+  describe("selection matches", () => {
+    function matches(cm: EditorView, cls: string) {
+      return Array.from(cm.contentDOM.querySelectorAll("." + cls)).map(e => e.textContent)
+    }
+
+    it("highlights the word around the cursor", () => {
+      let cm = tempView("foo bar foo\nfoobar foo", [highlightSelectionMatches()])
+      cm.dispatch({selection: {anchor: 1}})
+      ist(matches(cm, "cm-selectionMatch").join(), "foo,foo")
+      ist(matches(cm, "cm-selectionMatch-main").join(), "foo")
+      cm.dispatch({selection: {anchor: 3}})
+      ist(matches(cm, "cm-selectionMatch").length, 0)
+    })
+
+    it("highlights the selected text", () => {
+      let cm = tempView("foo bar foo\nfoobar foo", [highlightSelectionMatches()])
+      cm.dispatch({selection: {anchor: 0, head: 3}})
+      ist(matches(cm, "cm-selectionMatch").length, 3)
+      cm.dispatch({selection: {anchor: 1, head: 2}})
+      ist(matches(cm, "cm-selectionMatch").length, 7)
+    })
+
+    it("respects the options", () => {
+      let cm = tempView("foo bar foo\nfoobar foo", [highlightSelectionMatches({wholeWords: true, minSelectionLength: 2})])
+      cm.dispatch({selection: {anchor: 0, head: 3}})
+      ist(matches(cm, "cm-selectionMatch").length, 2)
+      cm.dispatch({selection: {anchor: 0, head: 1}})
+      ist(matches(cm, "cm-selectionMatch").length, 0)
+      cm = tempView("a a a a", [highlightSelectionMatches({maxMatches: 3})])
+      cm.dispatch({selection: {anchor: 0}})
+      ist(matches(cm, "cm-selectionMatch-main").length, 0)
+      cm = tempView("abcd abcd", [highlightSelectionMatches({maxQueryLength: 3})])
+      cm.dispatch({selection: {anchor: 0, head: 4}})
+      ist(matches(cm, "cm-selectionMatch").length, 0)
+    })
+
+    it("combines whole-word configuration", () => {
+      let cm = tempView("foo foobar", [highlightSelectionMatches(), highlightSelectionMatches({wholeWords: true})])
+      cm.dispatch({selection: {anchor: 0, head: 3}})
+      ist(matches(cm, "cm-selectionMatch").length, 0)
+    })
+  })
+
+  describe("html clipboard", () => {
+    function copy(cm: EditorView) {
+      let data = new DataTransfer
+      cm.contentDOM.dispatchEvent(new ClipboardEvent("copy", {clipboardData: data, bubbles: true, cancelable: true}))
+      return data
+    }
+
+    it("puts styled HTML on the clipboard", () => {
+      let cm = tempView("one two\nthree", [
+        htmlClipboard(),
+        EditorView.theme({".red": {color: "rgb(255, 0, 0)"}}),
+        decos(Decoration.set(d(4, 7, {class: "red"})))
+      ])
+      cm.dispatch({selection: {anchor: 0, head: 13}})
+      let data = copy(cm)
+      ist(data.getData("text/plain"), "one two\nthree")
+      let html = data.getData("text/html")
+      ist(/^<pre[^>]*>one <span style="color: rgb\(255, 0, 0\);">two<\/span>\nthree<\/pre>$/.test(html))
+    })
+
+    it("allows customizing serialization", () => {
+      let cm = tempView("one", [htmlClipboard({serialize: dom => `<p>${dom.textContent}</p>`})])
+      cm.dispatch({selection: {anchor: 0, head: 3}})
+      ist(copy(cm).getData("text/html"), "<p>one</p>")
+    })
+
+    it("handles selections larger than the viewport", () => {
+      let doc = "line\n".repeat(2000) + "end"
+      let cm = tempView(doc, [
+        htmlClipboard(),
+        EditorView.theme({".blue": {color: "rgb(0, 0, 255)"}}),
+        decos(Decoration.set(d(doc.length - 3, doc.length, {class: "blue"})))
+      ])
+      ist(cm.viewport.to, doc.length, "<")
+      cm.dispatch({selection: {anchor: 0, head: doc.length}})
+      let html = copy(cm).getData("text/html")
+      ist(/line\n<span style="color: rgb\(0, 0, 255\);">end<\/span><\/pre>$/.test(html))
+      ist(html.split("\n").length, 2001)
+    })
+
+    it("only copies plain text past the size limit", () => {
+      let cm = tempView("one\ntwo\nthree", [htmlClipboard({maxLength: 5})])
+      cm.dispatch({selection: {anchor: 0, head: 13}})
+      let data = copy(cm)
+      ist(data.getData("text/plain"), "one\ntwo\nthree")
+      ist(data.getData("text/html"), "")
+    })
+  })
 })
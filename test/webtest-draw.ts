@@ -1,6 +1,7 @@
 import {tempView} from "@codemirror/buildhelper/lib/tempview"
 import {EditorSelection} from "@codemirror/state"
-import {EditorView, ViewPlugin} from "@codemirror/view"
+import {EditorView, ViewPlugin, layer, RectangleMarker, dropCursor, drawSelection, cursorShape,
+        touchSelectionHandles} from "@codemirror/view"
 import ist from "ist"
 
 function domText(view: EditorView) {
@@ -189,6 +190,39 @@ describe("EditorView drawing", () => {
     })
   })
 
+  it("re-measures when its container is resized", () => {
+    if (!(window as any).ResizeObserver) return
+    let cm = tempView("word ".repeat(200), [EditorView.lineWrapping])
+    let wrap = cm.dom.parentNode!.appendChild(document.createElement("div"))
+    wrap.style.width = "400px"
+    wrap.appendChild(cm.dom)
+    cm.measure()
+    let height = cm.contentHeight
+    wrap.style.width = "200px"
+    return later().then(() => {
+      ist(cm.contentHeight, height, ">")
+      wrap.style.width = "400px"
+      return later().then(() => {
+        ist(Math.abs(cm.contentHeight - height), 2, "<")
+        wrap.remove()
+      })
+    })
+  })
+
+  it("refreshes its text metrics when fonts load", () => {
+    if (!document.fonts) return
+    let cm = tempView("one two")
+    cm.measure()
+    let width = cm.defaultCharacterWidth
+    // Doesn't change the line height, so this goes unnoticed
+    cm.dom.style.letterSpacing = "5px"
+    cm.measure()
+    ist(cm.defaultCharacterWidth, width)
+    document.fonts.dispatchEvent(new Event("loadingdone"))
+    cm.measure()
+    ist(cm.defaultCharacterWidth, width + 4, ">")
+  })
+
   it("hides parts of long lines that are horizontally out of view", () => {
     let cm = tempView("one\ntwo\n?" + "three ".repeat(3333) + "!\nfour")
     let {node} = cm.domAtPos(9)
@@ -235,4 +269,82 @@ describe("EditorView drawing", () => {
     ist(getComputedStyle(editor.dom).display, "flex")
     wrap.remove()
   })
+
+  it("draws layer markers", () => {
+    let cm = tempView("one\ntwo", [layer({
+      above: true,
+      class: "test-layer",
+      markers: view => view.state.selection.ranges.map(r => RectangleMarker.forRange(view, "test-marker", r))
+        .reduce((a, b) => a.concat(b)),
+      update: update => update.selectionSet
+    })])
+    cm.measure()
+    let layerDOM = cm.scrollDOM.querySelector(".test-layer")!
+    ist(layerDOM.classList.contains("cm-layer-above"))
+    ist(layerDOM.children.length, 1)
+    let marker = layerDOM.firstChild
+    cm.dispatch({selection: {anchor: 1}})
+    cm.measure()
+    ist(layerDOM.firstChild, marker)
+    cm.dispatch({selection: EditorSelection.create([EditorSelection.cursor(1), EditorSelection.cursor(5)])})
+    cm.measure()
+    ist(layerDOM.children.length, 2)
+  })
+
+  it("leaves content added by a layer's mount function alone", () => {
+    let cm = tempView("one\ntwo", [layer({
+      above: false,
+      class: "test-layer",
+      markers: view => RectangleMarker.forRange(view, "test-marker", view.state.selection.main),
+      update: update => update.selectionSet,
+      mount: dom => dom.appendChild(document.createElement("span")).className = "test-own"
+    })])
+    cm.measure()
+    let layerDOM = cm.scrollDOM.querySelector(".test-layer")!
+    cm.dispatch({selection: {anchor: 5}})
+    cm.measure()
+    ist(layerDOM.querySelectorAll(".test-own").length, 1)
+    ist(layerDOM.querySelectorAll(".test-marker").length, 1)
+  })
+
+  it("shows a drop cursor during drag", () => {
+    let cm = tempView("one\ntwo", [dropCursor()])
+    let coords = cm.coordsAtPos(5)!
+    cm.contentDOM.dispatchEvent(new DragEvent("dragover", {clientX: coords.left, clientY: coords.top + 1, bubbles: true}))
+    cm.measure()
+    ist(cm.scrollDOM.querySelectorAll(".cm-dropCursor").length, 1)
+    cm.contentDOM.dispatchEvent(new DragEvent("dragleave", {relatedTarget: document.body, bubbles: true}))
+    cm.measure()
+    ist(cm.scrollDOM.querySelectorAll(".cm-dropCursor").length, 0)
+  })
+
+  it("shows touch selection handles after touch input", () => {
+    if (typeof Touch == "undefined") return
+    let cm = tempView("one two", [touchSelectionHandles()])
+    let handles = () => {
+      cm.measure()
+      return Array.from(cm.scrollDOM.querySelectorAll(".cm-touchHandle")).map(h => h.className.replace(/.*cm-touchHandle-/, ""))
+    }
+    ist(handles().length, 0)
+    let coords = cm.coordsAtPos(1)!
+    let touch = new Touch({identifier: 1, target: cm.contentDOM, clientX: coords.left, clientY: coords.top + 1})
+    cm.contentDOM.dispatchEvent(new TouchEvent("touchstart", {touches: [touch], bubbles: true}))
+    cm.contentDOM.dispatchEvent(new TouchEvent("touchend", {touches: [], bubbles: true}))
+    ist(handles().join(), "cursor")
+    cm.dispatch({selection: {anchor: 4, head: 7}})
+    ist(handles().join(), "start,end")
+    cm.contentDOM.dispatchEvent(new KeyboardEvent("keydown", {bubbles: true}))
+    ist(handles().length, 0)
+  })
+
+  it("can draw block cursors", () => {
+    let cm = tempView("one\ntwo", [drawSelection(), cursorShape.of("block")])
+    cm.dispatch({selection: {anchor: 1}})
+    cm.measure()
+    let cursor = cm.scrollDOM.querySelector(".cm-cursor-secondary, .cm-cursor-primary") as HTMLElement | null
+    if (!cursor) return // Primary cursor isn't drawn on iOS
+    ist(cursor.classList.contains("cm-cursor-block"))
+    let width = parseFloat(cursor.style.width), a = cm.coordsAtPos(1, 1)!, b = cm.coordsAtPos(2, -1)!
+    ist(Math.abs(width - (b.left - a.left)), 1, "<")
+  })
 })
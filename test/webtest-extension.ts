@@ -1,6 +1,6 @@
 import {tempView} from "@codemirror/buildhelper/lib/tempview"
 import {Text, EditorState, Compartment} from "@codemirror/state"
-import {EditorView, ViewPlugin, ViewUpdate} from "@codemirror/view"
+import {EditorView, ViewPlugin, ViewUpdate, PluginField, PerfTrace} from "@codemirror/view"
 import ist from "ist"
 
 describe("EditorView extension", () => {
@@ -78,4 +78,47 @@ describe("EditorView extension", () => {
     cm.dispatch({effects: lang.reconfigure(EditorState.phrases.of({Hello: "Bonjour"}))})
     ist(cm.dom.querySelector(".greeting")!.textContent, "Bonjour")
   })
+
+  it("can trace update cycles", () => {
+    let traces: PerfTrace[] = []
+    let plugin = ViewPlugin.define(() => ({}))
+    let cm = tempView("one\ntwo", [plugin, EditorView.perfTracer.of(t => traces.push(t))])
+    cm.measure()
+    traces.length = 0
+    let request = {read() { return 1 }, write() {}}
+    cm.dispatch({changes: {from: 0, insert: "x"}})
+    cm.requestMeasure(request)
+    cm.measure()
+    ist(traces.length, 2)
+    let [update, measure] = traces
+    ist(update.type, "update")
+    ist(update.plugins.some(p => p.plugin == plugin))
+    ist(update.domCreated + update.domReused, 0, ">")
+    ist(measure.type, "measure")
+    ist(measure.measureIterations, 1, ">=")
+    ist(measure.measureRequests.some(r => r.request == request))
+  })
+
+  it("applies attributes provided by plugins", () => {
+    let plugin = ViewPlugin.fromClass(class {
+      on = false
+      update() {}
+    }, {
+      provide: [
+        PluginField.editorAttributes.from(p => p.on ? {class: "plugin-on"} : null),
+        PluginField.contentAttributes.from(p => p.on ? {"data-on": "yes"} : null)
+      ]
+    })
+    let cm = tempView("one", [plugin, EditorView.editorAttributes.of({class: "from-facet"})])
+    ist(!cm.dom.classList.contains("plugin-on"))
+    cm.plugin(plugin)!.on = true
+    cm.update([])
+    ist(cm.dom.classList.contains("plugin-on"))
+    ist(cm.dom.classList.contains("from-facet"))
+    ist(cm.contentDOM.getAttribute("data-on"), "yes")
+    cm.plugin(plugin)!.on = false
+    cm.update([])
+    ist(!cm.dom.classList.contains("plugin-on"))
+    ist(cm.contentDOM.getAttribute("data-on"), null)
+  })
 })
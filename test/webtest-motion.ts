@@ -1,4 +1,7 @@
 import {tempView, requireFocus} from "@codemirror/buildhelper/lib/tempview"
+import {EditorView, Decoration, addCursorAbove, addCursorBelow, selectNextOccurrence,
+        cursorSubwordRight, cursorSubwordLeft, defaultClickUnits} from "@codemirror/view"
+import {EditorSelection} from "@codemirror/state"
 import ist from "ist"
 
 function setDOMSel(node: Node, offset: number) {
@@ -71,6 +74,123 @@ describe("EditorView selection", () => {
     test(6, def, 1)
     test(8, def.parentNode!, domIndex(def) + 1)
   })
+
+  it("skips atomic ranges in cursor motion", () => {
+    let atoms = Decoration.set(Decoration.mark({class: "a"}).range(2, 5))
+    let cm = tempView("abcdefg", [EditorView.atomicRanges.of(atoms)])
+    ist(cm.moveByChar(EditorSelection.cursor(2), true).head, 5)
+    ist(cm.moveByChar(EditorSelection.cursor(5), false).head, 2)
+    ist(cm.moveByChar(EditorSelection.cursor(1), true).head, 2)
+    ist(cm.moveByGroup(EditorSelection.cursor(0), true).head, 7)
+  })
+
+  it("moves DOM selections out of atomic ranges", () => {
+    let atoms = Decoration.set(Decoration.mark({class: "a"}).range(2, 5))
+    let cm = requireFocus(tempView("abcdefg", [EditorView.atomicRanges.of(atoms)]))
+    cm.dispatch({selection: {anchor: 2}})
+    setDOMSel(textNode(cm.contentDOM, "cde")!, 1)
+    cm.observer.flush()
+    ist(cm.state.selection.main.head, 5)
+  })
+
+  it("can add cursors above and below", () => {
+    let cm = tempView("one\ntwo\nthree", [])
+    cm.dispatch({selection: {anchor: 6}})
+    ist(addCursorBelow(cm))
+    ist(cm.state.selection.ranges.map(r => r.head).join(), "6,10")
+    ist(cm.state.selection.main.head, 10)
+    ist(addCursorAbove(cm))
+    ist(cm.state.selection.ranges.map(r => r.head).join(), "2,6,10")
+    ist(!addCursorAbove(cm))
+  })
+
+  it("can select the next occurrence", () => {
+    let cm = tempView("foo bar foobar foo", [])
+    cm.dispatch({selection: {anchor: 1}})
+    ist(selectNextOccurrence(cm))
+    ist(cm.state.selection.ranges.map(r => r.from + "-" + r.to).join(), "0-3")
+    ist(selectNextOccurrence(cm))
+    ist(cm.state.selection.ranges.map(r => r.from + "-" + r.to).join(), "0-3,15-18")
+    ist(cm.state.selection.main.from, 15)
+    ist(!selectNextOccurrence(cm))
+    cm.dispatch({selection: {anchor: 4, head: 6}})
+    ist(selectNextOccurrence(cm))
+    ist(cm.state.selection.main.from, 11)
+  })
+
+  it("moves over grapheme clusters as a whole", () => {
+    let text = "a\u{1f469}\u200d\u{1f469}\u200d\u{1f467}b\u{1f1f3}\u{1f1f1}e\u0301"
+    let cm = tempView(text, [])
+    let stops = [], pos = EditorSelection.cursor(0)
+    for (let i = 0; i < 6; i++) stops.push((pos = cm.moveByChar(pos, true)).head)
+    ist(stops.join(), "1,9,10,14,16,16")
+    ist(cm.moveByChar(EditorSelection.cursor(14), false).head, 10)
+  })
+
+  it("uses the word segmenter for group motion in scripts without spaces", () => {
+    let cm = tempView("\u6211\u4eec\u53bb\u5403\u996d ok", [
+      EditorView.wordSegmenter.of((text, pos) => ({from: pos - pos % 2, to: Math.min(text.length, pos - pos % 2 + 2)}))
+    ])
+    let stops = [], pos = EditorSelection.cursor(0)
+    for (let i = 0; i < 4; i++) stops.push((pos = cm.moveByGroup(pos, true)).head)
+    ist(stops.join(), "2,4,5,8")
+    for (let i = 0; i < 4; i++) stops.push((pos = cm.moveByGroup(pos, false)).head)
+    ist(stops.slice(4).join(), "6,4,2,0")
+  })
+
+  it("finds words with Intl.Segmenter by default", () => {
+    let Segmenter = (Intl as any).Segmenter
+    if (!Segmenter) return
+    let prefix = "x ".repeat(100), words = "我们去吃饭"
+    let cm = tempView(prefix + words + " " + prefix)
+    let ends = Array.from(new Segmenter(undefined, {granularity: "word"}).segment(words))
+      .map((s: any) => prefix.length + s.index + s.segment.length)
+    let stops = [], pos = EditorSelection.cursor(prefix.length)
+    for (let i = 0; i < ends.length; i++) stops.push((pos = cm.moveByGroup(pos, true)).head)
+    ist(stops.join(), ends.join())
+  })
+
+  it("allows configuring the unit selected by repeated clicks", () => {
+    let paragraph = (view: EditorView, pos: number) => {
+      let {doc} = view.state, from = doc.lineAt(pos), to = from
+      while (from.number > 1 && doc.line(from.number - 1).length) from = doc.line(from.number - 1)
+      while (to.number < doc.lines && doc.line(to.number + 1).length) to = doc.line(to.number + 1)
+      return EditorSelection.range(from.from, to.to)
+    }
+    let cm = tempView("one two\nthree\n\nfour", [EditorView.clickSelectionUnit.of({3: paragraph})])
+    let click = (pos: number, detail: number) => {
+      let coords = cm.coordsAtPos(pos)!
+      let init = {clientX: coords.left + 1, clientY: (coords.top + coords.bottom) / 2, detail, button: 0, bubbles: true}
+      cm.contentDOM.dispatchEvent(new MouseEvent("mousedown", init))
+      document.dispatchEvent(new MouseEvent("mouseup", init))
+      return cm.state.selection.main.from + "-" + cm.state.selection.main.to
+    }
+    ist(click(9, 2), "8-13")
+    ist(click(9, 3), "0-13")
+    ist(click(9, 4), "0-13")
+    cm = tempView("one two\nthree\n\nfour", [EditorView.clickSelectionUnit.of({3: paragraph, 4: defaultClickUnits[3]})])
+    ist(click(9, 3), "0-13")
+    ist(click(9, 4), "8-14")
+  })
+
+  it("can move by subword", () => {
+    let cm = tempView("fooBarBaz XMLParser foo_bar item2", [])
+    let stops = [], pos = EditorSelection.cursor(0)
+    for (let i = 0; i < 12; i++) stops.push((pos = cm.moveBySubword(pos, true)).head)
+    ist(stops.join(), "3,6,9,13,19,23,24,27,32,33,33,33")
+    for (let i = 0; i < 3; i++) stops.push((pos = cm.moveBySubword(pos, false)).head)
+    ist(stops.slice(12).join(), "32,28,24")
+  })
+
+  it("allows configuring subword boundaries", () => {
+    let cm = tempView("fooBar foo_bar", [EditorView.subwordBoundary.of(() => false)])
+    ist(cm.moveBySubword(EditorSelection.cursor(0), true).head, 6)
+    cm.dispatch({selection: {anchor: 0}})
+    ist(cursorSubwordRight(cm))
+    ist(cm.state.selection.main.head, 6)
+    ist(cursorSubwordLeft(cm))
+    ist(cm.state.selection.main.head, 0)
+  })
 })
 
 function isEquivalentPosition(node: Node, off: number, targetNode: Node | null, targetOff: number): boolean {
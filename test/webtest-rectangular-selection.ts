@@ -0,0 +1,125 @@
+import {tempView, requireFocus} from "@codemirror/buildhelper/lib/tempview"
+import {EditorView, rectangularSelection, crosshairCursor} from "@codemirror/view"
+import {Extension} from "@codemirror/state"
+import ist from "ist"
+
+type Point = {x: number, y: number}
+
+function coords(cm: EditorView, pos: number): Point {
+  let rect = cm.coordsAtPos(pos)!
+  return {x: rect.left, y: (rect.top + rect.bottom) / 2}
+}
+
+function drag(cm: EditorView, from: Point, to: Point, mods: MouseEventInit = {altKey: true}) {
+  let init = (p: Point) => Object.assign({clientX: p.x, clientY: p.y, button: 0, buttons: 1, bubbles: true}, mods)
+  cm.contentDOM.dispatchEvent(new MouseEvent("mousedown", init(from)))
+  document.dispatchEvent(new MouseEvent("mousemove", init(to)))
+  document.dispatchEvent(new MouseEvent("mouseup", Object.assign(init(to), {buttons: 0})))
+}
+
+function ranges(cm: EditorView) {
+  return cm.state.selection.ranges.map(r => r.from + "-" + r.to).join()
+}
+
+function view(doc: string, ext: Extension = rectangularSelection()) {
+  let cm = tempView(doc, [ext])
+  cm.measure()
+  return cm
+}
+
+describe("rectangularSelection", () => {
+  it("selects a rectangle", () => {
+    let cm = view("abcd\nefgh\nijkl")
+    drag(cm, coords(cm, 1), coords(cm, 13))
+    ist(ranges(cm), "1-3,6-8,11-13")
+  })
+
+  it("can select upwards and leftwards", () => {
+    let cm = view("abcd\nefgh\nijkl")
+    drag(cm, coords(cm, 13), coords(cm, 1))
+    ist(ranges(cm), "1-3,6-8,11-13")
+  })
+
+  it("expands tabs when computing columns", () => {
+    let cm = view("\tab\n12345678ab")
+    drag(cm, coords(cm, 1), coords(cm, 10))
+    ist(ranges(cm), "1-3,8-10")
+  })
+
+  it("skips lines that end before the rectangle", () => {
+    let cm = view("abcdef\nab\nabcdef")
+    drag(cm, coords(cm, 3), coords(cm, 15))
+    ist(ranges(cm), "3-5,13-15")
+  })
+
+  it("uses the pointer position for columns past the end of a line", () => {
+    let cm = view("ab\nabcdef"), start = coords(cm, 2)
+    start.x += cm.defaultCharacterWidth * 2
+    drag(cm, start, coords(cm, 9))
+    ist(ranges(cm), "7-9")
+  })
+
+  it("only reacts to the modifier key", () => {
+    let cm = view("abcd\nefgh\nijkl")
+    drag(cm, coords(cm, 1), coords(cm, 13), {})
+    ist(ranges(cm), "1-13")
+  })
+
+  it("can use a custom event filter", () => {
+    let cm = view("abcd\nefgh\nijkl", rectangularSelection({eventFilter: e => e.ctrlKey}))
+    drag(cm, coords(cm, 1), coords(cm, 13), {ctrlKey: true})
+    ist(ranges(cm), "1-3,6-8,11-13")
+    drag(cm, coords(cm, 1), coords(cm, 13), {altKey: true})
+    ist(ranges(cm), "1-13")
+  })
+})
+
+describe("crosshairCursor", () => {
+  function key(cm: EditorView, type: string, init: KeyboardEventInit) {
+    cm.contentDOM.dispatchEvent(new KeyboardEvent(type, Object.assign({bubbles: true}, init)))
+  }
+
+  function shown(cm: EditorView, cls = "cm-crosshair") {
+    let hasClass = cm.dom.classList.contains(cls), hasCursor = /crosshair/.test(cm.contentDOM.style.cursor)
+    ist(hasClass, hasCursor)
+    return hasClass
+  }
+
+  it("shows while the modifier key is held", () => {
+    let cm = tempView("abc", [crosshairCursor()])
+    ist(!shown(cm))
+    key(cm, "keydown", {key: "Alt", keyCode: 18, altKey: true})
+    ist(shown(cm))
+    key(cm, "keyup", {key: "Alt", keyCode: 18})
+    ist(!shown(cm))
+  })
+
+  it("follows the modifier state of mouse movement", () => {
+    let cm = tempView("abc", [crosshairCursor()])
+    cm.contentDOM.dispatchEvent(new MouseEvent("mousemove", {altKey: true, bubbles: true}))
+    ist(shown(cm))
+    cm.contentDOM.dispatchEvent(new MouseEvent("mousemove", {bubbles: true}))
+    ist(!shown(cm))
+  })
+
+  it("can be configured", () => {
+    let cm = tempView("abc", [crosshairCursor({key: "Control", class: "ctrl-held", cursor: "copy"})])
+    key(cm, "keydown", {key: "Alt", keyCode: 18, altKey: true})
+    ist(!cm.dom.classList.contains("ctrl-held"))
+    key(cm, "keydown", {key: "Control", keyCode: 17, ctrlKey: true})
+    ist(cm.dom.classList.contains("ctrl-held"))
+    ist(cm.contentDOM.style.cursor, "copy")
+    key(cm, "keyup", {key: "Control", keyCode: 17})
+    ist(!cm.dom.classList.contains("ctrl-held"))
+  })
+
+  it("hides when the editor loses focus", () => {
+    let cm = requireFocus(tempView("abc", [crosshairCursor()]))
+    key(cm, "keydown", {key: "Alt", keyCode: 18, altKey: true})
+    ist(shown(cm))
+    cm.contentDOM.blur()
+    return new Promise(resolve => setTimeout(resolve, 50)).then(() => {
+      ist(!shown(cm))
+    })
+  })
+})
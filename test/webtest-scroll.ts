@@ -0,0 +1,85 @@
+import {tempView} from "@codemirror/buildhelper/lib/tempview"
+import {EditorView} from "@codemirror/view"
+import {EditorState} from "@codemirror/state"
+import ist from "ist"
+
+function longDoc() {
+  let lines = []
+  for (let i = 0; i < 200; i++) lines.push("line " + i)
+  return lines.join("\n")
+}
+
+function scrolledView() {
+  let cm = tempView(longDoc(), [EditorView.theme({"&": {height: "200px"}, ".cm-scroller": {overflow: "auto"}})])
+  cm.measure()
+  return cm
+}
+
+describe("EditorView scrolling", () => {
+  it("can scroll a position into view", () => {
+    let cm = scrolledView(), pos = cm.state.doc.line(150).from
+    cm.dispatch({effects: EditorView.scrollIntoView(pos)})
+    cm.measure()
+    let coords = cm.coordsAtPos(pos)!, rect = cm.scrollDOM.getBoundingClientRect()
+    ist(coords.top, rect.top, ">=")
+    ist(coords.bottom, rect.bottom, "<=")
+  })
+
+  it("can align a position with the top of the view", () => {
+    let cm = scrolledView(), pos = cm.state.doc.line(100).from
+    cm.dispatch({effects: EditorView.scrollIntoView(pos, {y: "start", yMargin: 0})})
+    cm.measure()
+    ist(Math.abs(cm.coordsAtPos(pos)!.top - cm.scrollDOM.getBoundingClientRect().top), 2, "<")
+  })
+
+  it("can center a position", () => {
+    let cm = scrolledView(), pos = cm.state.doc.line(100).from
+    cm.dispatch({effects: EditorView.scrollIntoView(pos, {y: "center"})})
+    cm.measure()
+    let coords = cm.coordsAtPos(pos)!, rect = cm.scrollDOM.getBoundingClientRect()
+    let middle = (coords.top + coords.bottom) / 2
+    ist(Math.abs(middle - (rect.top + rect.bottom) / 2), 5, "<")
+  })
+
+  it("can restore a scroll snapshot after setState", () => {
+    let cm = scrolledView()
+    cm.scrollDOM.scrollTop = 1000
+    cm.measure()
+    let snapshot = cm.scrollSnapshot()
+    cm.setState(EditorState.create({doc: "foo"}))
+    cm.measure()
+    cm.setState(EditorState.create({doc: longDoc()}))
+    cm.dispatch({effects: snapshot})
+    cm.measure()
+    ist(Math.abs(cm.scrollDOM.scrollTop - 1000), 2, "<")
+  })
+
+  it("maps scroll snapshots through changes", () => {
+    let cm = scrolledView()
+    cm.scrollDOM.scrollTop = 1000
+    cm.measure()
+    let line = cm.visualLineAtHeight(cm.scrollDOM.getBoundingClientRect().top + 1)
+    let snapshot = cm.scrollSnapshot()
+    let tr = cm.state.update({changes: {from: 0, insert: "x\n".repeat(20)}})
+    cm.dispatch(tr)
+    cm.dispatch({effects: snapshot.map(tr.changes)})
+    cm.measure()
+    let top = cm.scrollDOM.getBoundingClientRect().top + 1
+    ist(cm.visualLineAtHeight(top).from, line.from + 40)
+  })
+
+  it("keeps extending the selection while the pointer is held below the editor", () => {
+    let cm = scrolledView()
+    let start = cm.coordsAtPos(1)!, rect = cm.scrollDOM.getBoundingClientRect()
+    let init = (y: number) => ({clientX: start.left, clientY: y, button: 0, buttons: 1, bubbles: true})
+    cm.contentDOM.dispatchEvent(new MouseEvent("mousedown", init((start.top + start.bottom) / 2)))
+    document.dispatchEvent(new MouseEvent("mousemove", init(rect.bottom + 20)))
+    let head = cm.state.selection.main.head
+    return new Promise(resolve => setTimeout(resolve, 300)).then(() => {
+      let scrolled = cm.scrollDOM.scrollTop, newHead = cm.state.selection.main.head
+      document.dispatchEvent(new MouseEvent("mouseup", {...init(rect.bottom + 20), buttons: 0}))
+      ist(scrolled, 0, ">")
+      ist(newHead, head, ">")
+    })
+  })
+})